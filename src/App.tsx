@@ -1,81 +1,82 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { Upload, Download, RotateCcw, TrendingUp, Search, Target } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Upload, Download, RotateCcw, TrendingUp, Search, FileJson, FileText, Printer } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
-
-interface KeywordData {
-  keyword: string;
-  position: number;
-  searchVolume: number;
-  currentTraffic?: number;
-  url?: string;
-}
-
-interface ProcessedKeyword extends KeywordData {
-  estimatedCurrentTraffic: number;
-  trafficPosition3: number;
-  trafficPosition2: number;
-  trafficPosition1: number;
-  gainPosition3: number;
-  gainPosition2: number;
-  gainPosition1: number;
-  probStay: number;
-  probTo3: number;
-  probTo2: number;
-  probTo1: number;
-  expectedTraffic: number;
-  expectedGain: number;
-}
+import type { BusinessValueConfig, ColumnMapping, CompetitionConfig, CtrTable, EffortModel, KeywordData, ModelConfig, ProcessedKeyword, RankingOutcome, SegmentationConfig, SerpFeatureMultipliers, TimelineConfig, TransitionModel } from './types';
+import { DEFAULT_CTR_VALUES, DEFAULT_MODEL_CONFIG, processKeywords, summarizeKeywords } from './lib/forecast';
+import { DEFAULT_COMPETITION, DEFAULT_OUTCOMES, DEFAULT_TRANSITION_MODEL, upgradeTransitionModel } from './lib/transitions';
+import { DEFAULT_SEGMENTATION } from './lib/segments';
+import { DEFAULT_SERP_FEATURE_MULTIPLIERS } from './lib/serpFeatures';
+import { DEFAULT_BUSINESS_VALUE, formatMoney, hasBusinessValue } from './lib/businessValue';
+import { DEFAULT_EFFORT_MODEL } from './lib/effort';
+import { buildRoadmap, DEFAULT_ROADMAP_OPTIONS } from './lib/prioritization';
+import type { RoadmapOptions } from './lib/prioritization';
+import { buildTimeline, DEFAULT_TIMELINE } from './lib/timeline';
+import { createScenario, CURRENT_SCENARIO_ID, runScenario } from './lib/scenarios';
+import type { Scenario, ScenarioResult } from './lib/scenarios';
+import { downloadFile, exportFileName, printHtml } from './lib/download';
+import { DEFAULT_CANNIBALIZATION_OPTIONS, findCannibalization } from './lib/cannibalization';
+import type { CannibalizationOptions } from './lib/cannibalization';
+import { competitorIndex, findGapOpportunities, withCompetitors } from './lib/competitors';
+import type { Competitor } from './lib/competitors';
+import { buildHtmlReport, keywordsCsv, reportJson } from './lib/report';
+import type { ReportContent } from './lib/report';
+import TransitionEditor from './components/TransitionEditor';
+import SimulationPanel from './components/SimulationPanel';
+import Dashboard from './components/Dashboard';
+import { buildWorkbook } from './lib/export';
+import ResultsTable from './components/ResultsTable';
+import { applyTableView, DEFAULT_TABLE_VIEW } from './lib/tableView';
+import type { TableView } from './lib/tableView';
+import { detectSchema, EMPTY_COLUMN_MAPPING, hasRequiredColumns, saveColumnMapping } from './lib/schemas';
+import type { SchemaDetection } from './lib/schemas';
+import { mapSources } from './lib/importer';
+import type { DecimalSeparator, ImportReport } from './lib/importer';
+import ImportReportPanel from './components/ImportReportPanel';
+import { readFileSources, UnsupportedFileError } from './lib/fileParsing';
+import { createBackgroundImport, ImportCancelledError } from './lib/backgroundImport';
+import type { BackgroundImport, ImportProgress } from './lib/backgroundImport';
+import ImportProgressBar from './components/ImportProgressBar';
+import { sourceColumns, summarizeBySource, tagsFromFileName, UNTAGGED_SOURCE_LABEL } from './lib/sources';
+import type { SourceInfo } from './lib/sources';
+import SourceList from './components/SourceList';
+import SourceBreakdown from './components/SourceBreakdown';
+import { compareExports } from './lib/comparison';
+import ComparisonPanel from './components/ComparisonPanel';
+import CtrEditor from './components/CtrEditor';
+import ProjectBar from './components/ProjectBar';
+import PageView from './components/PageView';
+import ClusterPanel from './components/ClusterPanel';
+import SegmentPanel from './components/SegmentPanel';
+import SerpFeaturePanel from './components/SerpFeaturePanel';
+import BusinessValuePanel from './components/BusinessValuePanel';
+import RoadmapPanel from './components/RoadmapPanel';
+import TimelinePanel from './components/TimelinePanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import CtrFitPanel from './components/CtrFitPanel';
+import CannibalizationPanel from './components/CannibalizationPanel';
+import CompetitorPanel from './components/CompetitorPanel';
+import { clusterKeywords, DEFAULT_CLUSTERING_OPTIONS, EMPTY_CLUSTER_OVERRIDES, summarizeClusters, withClusterNames } from './lib/clustering';
+import type { ClusterOverrides } from './lib/clustering';
+import { AUTOSAVE_PROJECT_ID, deleteProject, InvalidProjectFileError, loadProject, restoreProject, saveProject } from './lib/projects';
+import type { Project, ProjectSettings } from './lib/projects';
 
-// Default CTR values per position
-const DEFAULT_CTR_VALUES: { [key: number]: number } = {
-  1: 28.5,
-  2: 15.7,
-  3: 11.0,
-  4: 8.0,
-  5: 6.1,
-  6: 4.8,
-  7: 3.8,
-  8: 3.0,
-  9: 2.5,
-  10: 2.1,
-  11: 1.8,
-  12: 1.5,
-  13: 1.3,
-  14: 1.1,
-  15: 1.0,
-  16: 0.9,
-  17: 0.8,
-  18: 0.7,
-  19: 0.6,
-  20: 0.5
-};
-
-// Baseline probabilities for ranking outcomes
-const BASE_IMPROVEMENT_PROBABILITIES = {
-  stay: 0.4,
-  toPos3: 0.3,
-  toPos2: 0.2,
-  toPos1: 0.1
-};
+const DEFAULT_PROJECT_SETTINGS: ProjectSettings = { ...DEFAULT_MODEL_CONFIG, columnMapping: EMPTY_COLUMN_MAPPING, scenarios: [] };
 
 function App() {
   const [keywords, setKeywords] = useState<KeywordData[]>([]);
-  const [ctrValues, setCtrValues] = useState<{ [key: number]: number }>(DEFAULT_CTR_VALUES);
+  const [ctrValues, setCtrValues] = useState<CtrTable>(DEFAULT_CTR_VALUES);
   const [upliftCtr, setUpliftCtr] = useState<number>(0);
   const [minSearchVolume, setMinSearchVolume] = useState<number>(10);
   const [maxPosition, setMaxPosition] = useState<number>(50);
   const [isDragActive, setIsDragActive] = useState<boolean>(false);
-  const [rawData, setRawData] = useState<Record<string, unknown>[]>([]);
-  const [availableColumns, setAvailableColumns] = useState<string[]>([]);
+  const [sources, setSources] = useState<SourceInfo[]>([]);
   const [showColumnMapper, setShowColumnMapper] = useState<boolean>(false);
-  const [columnMapping, setColumnMapping] = useState<{
-    keyword: string;
-    position: string;
-    volume: string;
-    url?: string;
-    currentTraffic?: string;
-  }>({ keyword: '', position: '', volume: '', url: '', currentTraffic: '' });
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const importRef = useRef<BackgroundImport | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(EMPTY_COLUMN_MAPPING);
+  const [detectedSchema, setDetectedSchema] = useState<SchemaDetection | null>(null);
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator | 'auto'>('auto');
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const [inputValues, setInputValues] = useState({
     minSearchVolume: '10',
     maxPosition: '50',
@@ -83,110 +84,173 @@ function App() {
     effort: '1'
   });
   const [effort, setEffort] = useState<number>(1);
+  const [outcomes, setOutcomes] = useState<RankingOutcome[]>(DEFAULT_OUTCOMES);
+  const [transitions, setTransitions] = useState<TransitionModel>(DEFAULT_TRANSITION_MODEL);
+  const [segmentation, setSegmentation] = useState<SegmentationConfig>(DEFAULT_SEGMENTATION);
+  const [serpFeatureMultipliers, setSerpFeatureMultipliers] = useState<SerpFeatureMultipliers>(DEFAULT_SERP_FEATURE_MULTIPLIERS);
+  const [businessValue, setBusinessValue] = useState<BusinessValueConfig>(DEFAULT_BUSINESS_VALUE);
+  const [effortModel, setEffortModel] = useState<EffortModel>(DEFAULT_EFFORT_MODEL);
+  const [timelineConfig, setTimelineConfig] = useState<TimelineConfig>(DEFAULT_TIMELINE);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [cannibalizationOptions, setCannibalizationOptions] = useState<CannibalizationOptions>(DEFAULT_CANNIBALIZATION_OPTIONS);
+  const [competition, setCompetition] = useState<CompetitionConfig>(DEFAULT_COMPETITION);
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [projectName, setProjectName] = useState<string | null>(null);
+  const [roadmapOptions, setRoadmapOptions] = useState<RoadmapOptions>(DEFAULT_ROADMAP_OPTIONS);
+  const [tableView, setTableView] = useState<TableView>(DEFAULT_TABLE_VIEW);
+  const [selectedSources, setSelectedSources] = useState<string[]>([]);
 
- const handleFileUpload = useCallback((file: File) => {
-  const ext = file.name.split('.').pop()?.toLowerCase();
+  const [baseline, setBaseline] = useState<{ name: string; keywords: KeywordData[] } | null>(null);
+  const [matchUrl, setMatchUrl] = useState<boolean>(true);
+  const [clusterThreshold, setClusterThreshold] = useState<number>(DEFAULT_CLUSTERING_OPTIONS.threshold);
+  const [clusterOverrides, setClusterOverrides] = useState<ClusterOverrides>(EMPTY_CLUSTER_OVERRIDES);
 
-  const openMapper = (rows: Record<string, unknown>[]) => {
-    const cols = Object.keys(rows[0] || {});
-    setRawData(rows);
-    setAvailableColumns(cols);
-    setShowColumnMapper(true);
-  };
+  const availableColumns = useMemo(() => sourceColumns(sources), [sources]);
 
-  if (ext === 'csv') {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        try {
-          const data = (results.data as Record<string, unknown>[]) || [];
-          openMapper(data);
-        } catch (err) {
-          console.error('CSV parsing error:', err);
-          alert('Erreur lors du parsing du CSV.');
-        }
-      },
-      error: (error) => {
-        console.error('CSV parsing error:', error);
-        alert('Erreur lors du parsing du CSV.');
-      }
-    });
-    return;
-  }
-
-  if (ext === 'xlsx' || ext === 'xls') {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' });
-        openMapper(jsonData);
-      } catch (error) {
-        console.error('XLSX parsing error:', error);
-        alert('Erreur lors du parsing du fichier XLSX.');
-      }
-    };
-    reader.readAsArrayBuffer(file);
-    return;
-  }
-
-  alert('Type de fichier non supporté. Uploade un CSV ou XLSX.');
-}, []);
+  // Stops the running import, if any, and drops the rows parsed so far
+  const closeImport = useCallback(() => {
+    importRef.current?.cancel();
+    importRef.current = null;
+    setImportProgress(null);
+    setShowColumnMapper(false);
+  }, []);
 
+  const openMapper = useCallback((loaded: SourceInfo[]) => {
+    const firstIncluded = loaded.find(source => source.included);
+    if (!firstIncluded) {
+      alert('Aucune donnée trouvée dans les fichiers.');
+      return false;
+    }
+    const detection = detectSchema(firstIncluded.columns);
+    setSources(loaded);
+    setColumnMapping(detection.mapping);
+    setDetectedSchema(detection);
+    setShowColumnMapper(true);
+    return true;
+  }, []);
+
+  // Parsing runs in a worker that keeps the rows until the mapping is submitted
+  const handleFilesUpload = useCallback((files: File[]) => {
+    closeImport();
+    const session = createBackgroundImport();
+    importRef.current = session;
+    session.parse(files, setImportProgress)
+      .then(loaded => {
+        if (!openMapper(loaded)) closeImport();
+      })
+      .catch(err => {
+        if (err instanceof ImportCancelledError) return;
+        closeImport();
+        console.error('File parsing error:', err);
+        alert(err instanceof UnsupportedFileError
+          ? 'Type de fichier non supporté. Uploade un CSV ou XLSX.'
+          : 'Erreur lors du parsing du fichier.');
+      })
+      .finally(() => {
+        if (importRef.current === session) setImportProgress(null);
+      });
+  }, [closeImport, openMapper]);
 
   const handleMappingSubmit = useCallback(() => {
-    if (!columnMapping.keyword || !columnMapping.position || !columnMapping.volume) {
+    if (!hasRequiredColumns(columnMapping)) {
       alert('Please map Keyword, Position, and Volume columns.');
       return;
     }
 
-    const parseNumber = (val: unknown): number => {
-      const num = parseFloat(String(val).replace(/[^0-9.-]+/g, ''));
-      return isNaN(num) ? NaN : num;
-    };
-
-    const processed: KeywordData[] = rawData.map((row) => {
-      const keyword = String(row[columnMapping.keyword] ?? '').trim();
-      const position = parseNumber(row[columnMapping.position]);
-      const searchVolume = parseNumber(row[columnMapping.volume]);
-      const url = columnMapping.url ? String(row[columnMapping.url] ?? '').trim() : undefined;
-      const currentTraffic = columnMapping.currentTraffic ? parseNumber(row[columnMapping.currentTraffic]) : undefined;
-
-      return {
-        keyword,
-        position: Math.min(Math.max(position, 1), 100),
-        searchVolume,
-        currentTraffic,
-        url
-      };
-    }).filter(r => r.keyword && !isNaN(r.position) && !isNaN(r.searchVolume) && r.searchVolume > 0);
-
-    const deduped = new Map<string, KeywordData>();
-    for (const row of processed) {
-      if (row.searchVolume < 0) continue;
-      const key = row.keyword.toLowerCase() + (row.url ? `|${row.url.toLowerCase()}` : '');
-      const existing = deduped.get(key);
-      if (!existing || row.position < existing.position) {
-        deduped.set(key, row);
-      }
+    const included = sources.filter(source => source.included);
+    if (included.length === 0) {
+      alert('Please select at least one source.');
+      return;
     }
+    const session = importRef.current;
+    if (!session) return;
+    setImportProgress({ stage: 'mapping', loaded: 0, total: 0 });
+    session.map(included, columnMapping, { decimalSeparator: decimalSeparator === 'auto' ? undefined : decimalSeparator })
+      .then(({ keywords: imported, report }) => {
+        saveColumnMapping(included[0].columns, columnMapping);
+        setKeywords(imported);
+        setImportReport(report);
+        setSelectedSources([]);
+        setClusterOverrides(EMPTY_CLUSTER_OVERRIDES);
+        closeImport();
+      })
+      .catch(err => {
+        if (err instanceof ImportCancelledError) return;
+        closeImport();
+        console.error('Mapping error:', err);
+        alert('Erreur lors du parsing du fichier.');
+      });
+  }, [columnMapping, sources, decimalSeparator, closeImport]);
 
-    setKeywords(Array.from(deduped.values()));
-    setShowColumnMapper(false);
-  }, [columnMapping, rawData]);
+  // The baseline goes through schema detection only; unknown layouts reuse the
+  // current mapping when the same columns exist
+  const handleBaselineUpload = useCallback((files: File[]) => {
+    Promise.all(files.map(file => readFileSources(file)))
+      .then(results => {
+        const loaded = results.flat().filter(source => source.included);
+        if (loaded.length === 0) {
+          alert('Aucune donnée trouvée dans les fichiers.');
+          return;
+        }
+        const columns = loaded[0].columns;
+        const detected = detectSchema(columns).mapping;
+        const isComplete = (m: ColumnMapping) =>
+          [m.keyword, m.position, m.volume].every(column => column && columns.includes(column));
+        const mapping = isComplete(detected) ? detected : isComplete(columnMapping) ? columnMapping : null;
+        if (!mapping) {
+          alert('Could not recognise the baseline columns. Use an export with the same layout as the current one.');
+          return;
+        }
+        const { keywords: imported } = mapSources(loaded.map(source => ({ rows: source.rows })), mapping);
+        setBaseline({ name: files.map(f => f.name).join(', '), keywords: imported });
+      })
+      .catch(err => {
+        console.error('File parsing error:', err);
+        alert(err instanceof UnsupportedFileError
+          ? 'Type de fichier non supporté. Uploade un CSV ou XLSX.'
+          : 'Erreur lors du parsing du fichier.');
+      });
+  }, [columnMapping]);
+
+  // One competitor per file, named after the domain in the file name
+  const handleCompetitorUpload = useCallback((files: File[]) => {
+    Promise.all(files.map(file => readFileSources(file)))
+      .then(results => {
+        const added: Competitor[] = [];
+        results.forEach((fileSources, index) => {
+          const loaded = fileSources.filter(source => source.included);
+          if (loaded.length === 0) return;
+          const columns = loaded[0].columns;
+          const mapping = detectSchema(columns).mapping;
+          if (![mapping.keyword, mapping.position, mapping.volume].every(column => column && columns.includes(column))) return;
+          const file = files[index];
+          added.push({
+            id: `${Date.now()}-${index}`,
+            domain: tagsFromFileName(file.name).domain || file.name.replace(/\.[^.]+$/, ''),
+            keywords: mapSources(loaded.map(source => ({ rows: source.rows })), mapping).keywords
+          });
+        });
+        if (added.length < files.length) {
+          alert('Could not recognise the columns of some competitor files. Use organic keyword exports.');
+        }
+        setCompetitors(prev => [...prev, ...added]);
+      })
+      .catch(err => {
+        console.error('File parsing error:', err);
+        alert(err instanceof UnsupportedFileError
+          ? 'Type de fichier non supporté. Uploade un CSV ou XLSX.'
+          : 'Erreur lors du parsing du fichier.');
+      });
+  }, []);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragActive(false);
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileUpload(files[0]);
+      handleFilesUpload(files);
     }
-  }, [handleFileUpload]);
+  }, [handleFilesUpload]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -198,132 +262,173 @@ function App() {
     setIsDragActive(false);
   }, []);
 
-  const calculateCTR = useCallback((position: number, applyUplift = false): number => {
-    const baseCtr = ctrValues[position] || (position > 20 ? 0.1 : DEFAULT_CTR_VALUES[position] || 0.5);
-    const ctr = applyUplift ? baseCtr * (1 + upliftCtr / 100) : baseCtr;
-    return Math.min(100, ctr);
-  }, [ctrValues, upliftCtr]);
-
-  const processedKeywords = useMemo((): ProcessedKeyword[] => {
-    return keywords
-      .filter(k => k.searchVolume >= minSearchVolume && k.position <= maxPosition)
-      .map(keyword => {
-        const currentCtr = calculateCTR(keyword.position, false);
-        const estimatedCurrentTraffic = keyword.currentTraffic || (keyword.searchVolume * currentCtr / 100);
-
-        const trafficPosition3 = keyword.searchVolume * calculateCTR(3, true) / 100;
-        const trafficPosition2 = keyword.searchVolume * calculateCTR(2, true) / 100;
-        const trafficPosition1 = keyword.searchVolume * calculateCTR(1, true) / 100;
-
-        const effortScale = effort === 0 ? 0.85 : effort === 2 ? 1.15 : 1;
-        const scaled = {
-          toPos3: BASE_IMPROVEMENT_PROBABILITIES.toPos3 * effortScale,
-          toPos2: BASE_IMPROVEMENT_PROBABILITIES.toPos2 * effortScale,
-          toPos1: BASE_IMPROVEMENT_PROBABILITIES.toPos1 * effortScale,
-          stay: BASE_IMPROVEMENT_PROBABILITIES.stay
-        };
-        const totalProb = scaled.toPos3 + scaled.toPos2 + scaled.toPos1 + scaled.stay;
-        const probTo3 = scaled.toPos3 / totalProb;
-        const probTo2 = scaled.toPos2 / totalProb;
-        const probTo1 = scaled.toPos1 / totalProb;
-        const probStay = scaled.stay / totalProb;
-
-        const expectedTraffic =
-          probStay * estimatedCurrentTraffic +
-          probTo3 * trafficPosition3 +
-          probTo2 * trafficPosition2 +
-          probTo1 * trafficPosition1;
-        const expectedGain = expectedTraffic - estimatedCurrentTraffic;
-
-        return {
-          ...keyword,
-          estimatedCurrentTraffic,
-          trafficPosition3,
-          trafficPosition2,
-          trafficPosition1,
-          gainPosition3: trafficPosition3 - estimatedCurrentTraffic,
-          gainPosition2: trafficPosition2 - estimatedCurrentTraffic,
-          gainPosition1: trafficPosition1 - estimatedCurrentTraffic,
-          probStay,
-          probTo3,
-          probTo2,
-          probTo1,
-          expectedTraffic,
-          expectedGain
-        };
-      });
-  }, [keywords, minSearchVolume, maxPosition, calculateCTR, effort]);
-
-  const summary = useMemo(() => {
-    const totalCurrentTraffic = processedKeywords.reduce((sum, k) => sum + k.estimatedCurrentTraffic, 0);
-    const totalGainPosition3 = processedKeywords.reduce((sum, k) => sum + Math.max(0, k.gainPosition3), 0);
-    const totalGainPosition1 = processedKeywords.reduce((sum, k) => sum + Math.max(0, k.gainPosition1), 0);
-    const totalExpectedTraffic = processedKeywords.reduce((sum, k) => sum + k.expectedTraffic, 0);
-    const totalExpectedGain = totalExpectedTraffic - totalCurrentTraffic;
-
-    // Chart data for traffic potential
-    const chartData = [
-      {
-        name: 'Current',
-        traffic: Math.round(totalCurrentTraffic),
-        fill: '#3B82F6'
-      },
-      {
-        name: 'Expected',
-        traffic: Math.round(totalExpectedTraffic),
-        fill: '#10B981'
-      }
-    ];
-
-    // Position distribution data
-    const positionDistribution = processedKeywords.reduce((acc, keyword) => {
-      const posRange = keyword.position <= 3 ? '1-3' :
-                     keyword.position <= 10 ? '4-10' :
-                     keyword.position <= 20 ? '11-20' :
-                     keyword.position <= 50 ? '21-50' : '50+';
-      acc[posRange] = (acc[posRange] || 0) + 1;
-      return acc;
-    }, {} as { [key: string]: number });
-
-    const positionChartData = Object.entries(positionDistribution).map(
-      ([range, count]) => ({
-        name: `Position ${range}`,
-        value: count,
-        fill:
-          range === '1-3'
-            ? '#10B981'
-            : range === '4-10'
-            ? '#F59E0B'
-            : range === '11-20'
-            ? '#EF4444'
-            : '#6B7280'
+  const modelConfig = useMemo((): ModelConfig => ({
+    ctrValues,
+    upliftCtr,
+    effort,
+    outcomes,
+    transitions,
+    segmentation,
+    serpFeatureMultipliers,
+    businessValue,
+    effortModel,
+    timeline: timelineConfig,
+    competition,
+    minSearchVolume,
+    maxPosition,
+    sources: selectedSources
+  }), [ctrValues, upliftCtr, effort, outcomes, transitions, segmentation, serpFeatureMultipliers, businessValue, effortModel, timelineConfig, competition, minSearchVolume, maxPosition, selectedSources]);
+
+  // Our keywords with the competitors ranking for them attached
+  const rankedKeywords = useMemo(
+    () => withCompetitors(keywords, competitorIndex(competitors)),
+    [keywords, competitors]
+  );
+
+  const processedKeywords = useMemo(
+    (): ProcessedKeyword[] => processKeywords(rankedKeywords, modelConfig),
+    [rankedKeywords, modelConfig]
+  );
+
+  const summary = useMemo(() => summarizeKeywords(processedKeywords), [processedKeywords]);
+
+  const keywordSources = useMemo(
+    () => Array.from(new Set(keywords.map(k => k.source || UNTAGGED_SOURCE_LABEL))),
+    [keywords]
+  );
+
+  // Clusters are built on every keyword so they stay stable while filters change
+  const clusterAssignment = useMemo(
+    () => clusterKeywords(keywords, { threshold: clusterThreshold, overrides: clusterOverrides }),
+    [keywords, clusterThreshold, clusterOverrides]
+  );
+
+  const clusters = useMemo(
+    () => summarizeClusters(processedKeywords, clusterAssignment),
+    [processedKeywords, clusterAssignment]
+  );
+
+  const clusteredKeywords = useMemo(() => withClusterNames(processedKeywords, clusters), [processedKeywords, clusters]);
+
+  const roadmap = useMemo(
+    () => buildRoadmap(processedKeywords, effortModel, roadmapOptions),
+    [processedKeywords, effortModel, roadmapOptions]
+  );
+
+  const cannibalization = useMemo(
+    () => findCannibalization(rankedKeywords, modelConfig, cannibalizationOptions),
+    [rankedKeywords, modelConfig, cannibalizationOptions]
+  );
+
+  const gaps = useMemo(
+    () => findGapOpportunities(keywords, competitors, modelConfig),
+    [keywords, competitors, modelConfig]
+  );
+
+  const timeline = useMemo(() => buildTimeline(processedKeywords, timelineConfig), [processedKeywords, timelineConfig]);
+
+  // Every saved scenario is computed on the same keywords, after the current settings
+  const scenarioResults = useMemo(
+    (): ScenarioResult[] => [
+      { id: CURRENT_SCENARIO_ID, name: 'Current settings', keywords: processedKeywords, summary },
+      ...scenarios.map(scenario => runScenario(rankedKeywords, scenario))
+    ],
+    [rankedKeywords, scenarios, processedKeywords, summary]
+  );
+
+  const handleSaveScenario = () => {
+    const name = prompt('Scenario name', `Scenario ${scenarios.length + 1}`)?.trim();
+    if (!name) return;
+    setScenarios(prev => [...prev, createScenario(name, modelConfig)]);
+  };
+
+  const sourceSummaries = useMemo(() => summarizeBySource(processedKeywords), [processedKeywords]);
+
+  const projectSettings = useMemo(
+    (): ProjectSettings => ({ ...modelConfig, columnMapping, scenarios }),
+    [modelConfig, columnMapping, scenarios]
+  );
+
+  const applyModelConfig = useCallback((config: ModelConfig) => {
+    setCtrValues(config.ctrValues);
+    setUpliftCtr(config.upliftCtr);
+    setEffort(config.effort);
+    setOutcomes(config.outcomes);
+    // Projects saved before outcomes were configurable store fixed position 3/2/1 weights
+    setTransitions(upgradeTransitionModel(config.transitions));
+    setSegmentation(config.segmentation);
+    setSerpFeatureMultipliers(config.serpFeatureMultipliers);
+    setBusinessValue(config.businessValue);
+    setEffortModel(config.effortModel);
+    setTimelineConfig(config.timeline);
+    setCompetition(config.competition);
+    setMinSearchVolume(config.minSearchVolume);
+    setMaxPosition(config.maxPosition);
+    setSelectedSources(config.sources);
+    setInputValues({
+      minSearchVolume: String(config.minSearchVolume),
+      maxPosition: String(config.maxPosition),
+      upliftCtr: String(config.upliftCtr),
+      effort: String(config.effort)
+    });
+  }, []);
+
+  // Projects arrive checked and merged with the defaults, see restoreProject
+  const applyProject = useCallback((project: Project) => {
+    const { settings } = project;
+    setKeywords(project.keywords);
+    applyModelConfig(settings);
+    setColumnMapping(settings.columnMapping);
+    setScenarios(settings.scenarios);
+    setImportReport(null);
+    setClusterOverrides(EMPTY_CLUSTER_OVERRIDES);
+    closeImport();
+  }, [applyModelConfig, closeImport]);
+
+  // Restore the last session once, then keep it autosaved
+  const restoredRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    loadProject(AUTOSAVE_PROJECT_ID)
+      .then(project => {
+        if (project && project.keywords.length > 0) applyProject(restoreProject(project, DEFAULT_PROJECT_SETTINGS));
       })
-    );
-
-    // Top opportunities (highest potential gain)
-    const topOpportunities = processedKeywords
-      .filter(k => k.expectedGain > 0)
-      .sort((a, b) => b.expectedGain - a.expectedGain)
-      .slice(0, 10)
-      .map(k => ({
-        keyword:
-          k.keyword.length > 25 ? k.keyword.substring(0, 25) + '...' : k.keyword,
-        current: Math.round(k.estimatedCurrentTraffic),
-        potential: Math.round(k.expectedTraffic),
-        gain: Math.round(k.expectedGain)
-      }));
-
-    return { 
-      totalCurrentTraffic, 
-      totalGainPosition3,
-      totalGainPosition1,
-      totalExpectedTraffic,
-      totalExpectedGain,
-      chartData,
-      positionChartData,
-      topOpportunities
-    };
-  }, [processedKeywords]);
+      .catch(err => {
+        console.error('Could not restore last session:', err);
+        // A session saved in an unusable state is dropped rather than retried on every load
+        if (err instanceof InvalidProjectFileError) return deleteProject(AUTOSAVE_PROJECT_ID);
+      })
+      .finally(() => {
+        restoredRef.current = true;
+      });
+  }, [applyProject]);
+
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    const timer = setTimeout(() => {
+      saveProject({
+        id: AUTOSAVE_PROJECT_ID,
+        name: 'Last session',
+        updatedAt: new Date().toISOString(),
+        keywordCount: keywords.length,
+        settings: projectSettings,
+        keywords
+      }).catch(err => console.error('Autosave failed:', err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [keywords, projectSettings]);
+
+  const comparison = useMemo(
+    () => (baseline ? compareExports(baseline.keywords, keywords, modelConfig, matchUrl) : null),
+    [baseline, keywords, modelConfig, matchUrl]
+  );
+
+  const tableRows = useMemo(() => applyTableView(clusteredKeywords, tableView), [clusteredKeywords, tableView]);
+  // Exports hold the rows the table shows, so their totals follow the search too
+  const tableSummary = useMemo(
+    () => (tableRows.length === processedKeywords.length ? summary : summarizeKeywords(tableRows)),
+    [tableRows, processedKeywords, summary]
+  );
 
   const handleReset = () => {
     setCtrValues(DEFAULT_CTR_VALUES);
@@ -331,6 +436,15 @@ function App() {
     setMinSearchVolume(10);
     setMaxPosition(50);
     setEffort(1);
+    setOutcomes(DEFAULT_OUTCOMES);
+    setTransitions(DEFAULT_TRANSITION_MODEL);
+    // Brand terms, rules and business value describe the site rather than the model, so they survive a reset
+    setSegmentation(prev => ({ ...DEFAULT_SEGMENTATION, brandTerms: prev.brandTerms, rules: prev.rules }));
+    setSerpFeatureMultipliers(DEFAULT_SERP_FEATURE_MULTIPLIERS);
+    // Manual effort estimates are kept, only the formula is reset
+    setEffortModel(prev => ({ ...DEFAULT_EFFORT_MODEL, overrides: prev.overrides }));
+    setTimelineConfig(DEFAULT_TIMELINE);
+    setCompetition(DEFAULT_COMPETITION);
     setInputValues({
       minSearchVolume: '10',
       maxPosition: '50',
@@ -339,31 +453,53 @@ function App() {
     });
   };
 
-  const exportToExcel = () => {
-    if (processedKeywords.length === 0) {
+  // Export files are named after the open project, or the domain of the imported export
+  const reportTitle = projectName ?? (sources.find(s => s.included && s.tags.domain)?.tags.domain || null);
+
+  const reportContent = (): ReportContent => ({
+    title: reportTitle,
+    processedKeywords: tableRows,
+    summary: tableSummary,
+    config: modelConfig,
+    clusters,
+    timeline
+  });
+
+  const exportReport = (format: 'xlsx' | 'csv' | 'json' | 'html' | 'print') => {
+    if (tableRows.length === 0) {
       alert('No data to export');
       return;
     }
 
-    const exportData = processedKeywords.map(k => ({
-      Keyword: k.keyword,
-      'Current Position': k.position,
-      'Search Volume': k.searchVolume,
-      'Current Traffic': Math.round(k.estimatedCurrentTraffic * 100) / 100,
-      'Traffic at Position 3': Math.round(k.trafficPosition3 * 100) / 100,
-      'Traffic at Position 2': Math.round(k.trafficPosition2 * 100) / 100,
-      'Traffic at Position 1': Math.round(k.trafficPosition1 * 100) / 100,
-      'Gain to Position 3': Math.round(k.gainPosition3 * 100) / 100,
-      'Gain to Position 2': Math.round(k.gainPosition2 * 100) / 100,
-      'Gain to Position 1': Math.round(k.gainPosition1 * 100) / 100,
-      'Expected Traffic': Math.round(k.expectedTraffic * 100) / 100,
-      'Expected Gain': Math.round(k.expectedGain * 100) / 100
-    }));
-
-    const ws = XLSX.utils.json_to_sheet(exportData);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Keyword Analysis');
-    XLSX.writeFile(wb, 'keyword-analysis.xlsx');
+    switch (format) {
+      case 'xlsx':
+        XLSX.writeFile(
+          buildWorkbook(tableRows, tableSummary, modelConfig, {
+            title: reportTitle,
+            comparison,
+            clusters,
+            roadmap,
+            timeline,
+            scenarios: scenarioResults.slice(1),
+            cannibalization,
+            gaps
+          }),
+          exportFileName(reportTitle, 'xlsx')
+        );
+        break;
+      case 'csv':
+        downloadFile(keywordsCsv(tableRows), exportFileName(reportTitle, 'csv'), 'text/csv;charset=utf-8');
+        break;
+      case 'json':
+        downloadFile(reportJson(reportContent()), exportFileName(reportTitle, 'json'), 'application/json');
+        break;
+      case 'html':
+        downloadFile(buildHtmlReport(reportContent()), exportFileName(reportTitle, 'html'), 'text/html;charset=utf-8');
+        break;
+      case 'print':
+        if (!printHtml(buildHtmlReport(reportContent()))) alert('Allow pop-ups for this site to print the report.');
+        break;
+    }
   };
 
   return (
@@ -375,6 +511,14 @@ function App() {
           <p className="text-gray-600">Upload your keyword data and analyze traffic potential</p>
         </div>
 
+        <ProjectBar
+          keywords={keywords}
+          settings={projectSettings}
+          defaultSettings={DEFAULT_PROJECT_SETTINGS}
+          onOpen={applyProject}
+          onCurrentChange={setProjectName}
+        />
+
         {/* File Upload Section */}
         <div className="bg-white rounded-lg shadow-md p-6">
           <h2 className="text-2xl font-semibold text-gray-900 mb-4 flex items-center">
@@ -391,18 +535,20 @@ function App() {
           >
             <Upload className="mx-auto text-gray-400 mb-4" size={48} />
             <p className="text-lg text-gray-600 mb-2">
-              Drag and drop your SEMrush keyword export file here
+              Drag and drop your SEMrush keyword export files here
             </p>
             <p className="text-sm text-gray-500 mb-4">
-              Supported formats: XLSX, CSV (SEMrush Organic Research exports)
+              Supported formats: XLSX, CSV (SEMrush Organic Research exports). Several files or sheets can be merged.
             </p>
             <input
               type="file"
               accept=".xlsx,.xls,.csv"
+              multiple
               onChange={(e) => {
-                if (e.target.files?.[0]) {
-                  handleFileUpload(e.target.files[0]);
+                if (e.target.files?.length) {
+                  handleFilesUpload(Array.from(e.target.files));
                 }
+                e.target.value = '';
               }}
               className="hidden"
               id="file-input"
@@ -411,12 +557,25 @@ function App() {
               htmlFor="file-input"
               className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer transition-colors"
             >
-              Choose File
+              Choose Files
             </label>
           </div>
+          {importProgress && <ImportProgressBar progress={importProgress} onCancel={closeImport} />}
+          {showColumnMapper && (sources.length > 1 || sources.some(source => source.sheetName)) && (
+            <SourceList sources={sources} onChange={setSources} />
+          )}
           {showColumnMapper && (
             <div className="mt-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Map Columns</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Map Columns</h3>
+              {detectedSchema && (
+                <p className="text-sm text-gray-600 mb-4">
+                  {detectedSchema.source === 'saved'
+                    ? 'Using the mapping you saved for files with these columns. Please confirm.'
+                    : detectedSchema.schema
+                    ? `Detected a ${detectedSchema.schema.name} export. Please confirm the mapping.`
+                    : 'Unknown export format: columns were matched by name, please check them.'}
+                </p>
+              )}
               <div className="grid md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Keyword *</label>
@@ -483,21 +642,81 @@ function App() {
                     ))}
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">SERP Features</label>
+                  <select
+                    value={columnMapping.serpFeatures}
+                    onChange={(e) => setColumnMapping({ ...columnMapping, serpFeatures: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">(none)</option>
+                    {availableColumns.map(col => (
+                      <option key={col} value={col}>{col}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">CPC</label>
+                  <select
+                    value={columnMapping.cpc}
+                    onChange={(e) => setColumnMapping({ ...columnMapping, cpc: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">(none)</option>
+                    {availableColumns.map(col => (
+                      <option key={col} value={col}>{col}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Keyword Difficulty</label>
+                  <select
+                    value={columnMapping.difficulty}
+                    onChange={(e) => setColumnMapping({ ...columnMapping, difficulty: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">(none)</option>
+                    {availableColumns.map(col => (
+                      <option key={col} value={col}>{col}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Trends</label>
+                  <select
+                    value={columnMapping.trends}
+                    onChange={(e) => setColumnMapping({ ...columnMapping, trends: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">(none)</option>
+                    {availableColumns.map(col => (
+                      <option key={col} value={col}>{col}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Number Format</label>
+                  <select
+                    value={decimalSeparator}
+                    onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator | 'auto')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="auto">Auto-detect per column</option>
+                    <option value=".">Decimal point (1,234.5)</option>
+                    <option value=",">Decimal comma (1 234,5 or 1.234,5)</option>
+                  </select>
+                </div>
               </div>
               <button
                 onClick={handleMappingSubmit}
-                disabled={!columnMapping.keyword || !columnMapping.position || !columnMapping.volume}
+                disabled={!hasRequiredColumns(columnMapping) || importProgress !== null}
                 className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
               >
                 Process Data
               </button>
             </div>
           )}
-          {!showColumnMapper && keywords.length > 0 && (
-            <p className="mt-4 text-green-600 font-medium">
-              ✓ Successfully loaded {keywords.length} keywords from SEMrush export
-            </p>
-          )}
+          {!showColumnMapper && importReport && <ImportReportPanel report={importReport} />}
         </div>
 
         {keywords.length > 0 && (
@@ -625,35 +844,42 @@ function App() {
               </div>
             </div>
 
-            {/* CTR Editor */}
-            <div className="bg-white rounded-lg shadow-md p-6">
-              <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
-                <Target className="mr-2" size={24} />
-                CTR by Position (%)
-              </h2>
-              <div className="grid grid-cols-4 md:grid-cols-10 gap-4">
-                {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20].map(position => (
-                  <div key={position} className="text-center">
-                    <label className="block text-xs font-medium text-gray-600 mb-1">
-                      Pos {position}
-                    </label>
-                    <input
-                      type="number"
-                      step="0.1"
-                      value={ctrValues[position] || 0}
-                      onChange={(e) => {
-                        const newValue = parseFloat(e.target.value) || 0;
-                        setCtrValues(prev => ({ ...prev, [position]: newValue }));
-                      }}
-                      className="w-full px-1 py-1 text-xs border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
-                    />
-                    <div className="text-xs text-gray-500 mt-1">
-                      {Math.min(100, (ctrValues[position] || 0) * (1 + upliftCtr / 100)).toFixed(1)}%
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+            <CtrEditor ctrValues={ctrValues} upliftCtr={upliftCtr} onChange={setCtrValues} />
+
+            <CtrFitPanel
+              segmentation={segmentation}
+              onApply={(fitted, segmentCtr) => {
+                setCtrValues(fitted);
+                // Segments the fit has no curve for follow the fitted global table
+                setSegmentation(prev => ({ ...prev, segmentCtr }));
+              }}
+            />
+
+            <TransitionEditor
+              outcomes={outcomes}
+              transitions={transitions}
+              onOutcomesChange={setOutcomes}
+              onChange={setTransitions}
+            />
+
+            <SegmentPanel
+              segmentation={segmentation}
+              globalCtr={ctrValues}
+              processedKeywords={processedKeywords}
+              onChange={setSegmentation}
+            />
+
+            <SerpFeaturePanel
+              multipliers={serpFeatureMultipliers}
+              processedKeywords={processedKeywords}
+              onChange={setSerpFeatureMultipliers}
+            />
+
+            <BusinessValuePanel value={businessValue} onChange={setBusinessValue} />
+
+            <Dashboard summary={summary} config={modelConfig} />
+
+            <TimelinePanel timeline={timeline} config={timelineConfig} onChange={setTimelineConfig} />
 
             {/* Summary and Results */}
             <div className="bg-white rounded-lg shadow-md p-6">
@@ -662,13 +888,43 @@ function App() {
                   <TrendingUp className="mr-2" size={24} />
                   Analysis Results
                 </h2>
-                <button
-                  onClick={exportToExcel}
-                  className="inline-flex items-center px-6 py-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 transition-colors"
-                >
-                  <Download className="mr-2" size={16} />
-                  Export to Excel
-                </button>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => exportReport('csv')}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+                  >
+                    <FileText className="mr-2" size={16} />
+                    CSV
+                  </button>
+                  <button
+                    onClick={() => exportReport('json')}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+                  >
+                    <FileJson className="mr-2" size={16} />
+                    JSON
+                  </button>
+                  <button
+                    onClick={() => exportReport('html')}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+                  >
+                    <FileText className="mr-2" size={16} />
+                    HTML Report
+                  </button>
+                  <button
+                    onClick={() => exportReport('print')}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+                  >
+                    <Printer className="mr-2" size={16} />
+                    Print / PDF
+                  </button>
+                  <button
+                    onClick={() => exportReport('xlsx')}
+                    className="inline-flex items-center px-6 py-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 transition-colors"
+                  >
+                    <Download className="mr-2" size={16} />
+                    Export to Excel
+                  </button>
+                </div>
               </div>
 
               {/* Summary Cards */}
@@ -689,122 +945,149 @@ function App() {
                   <p className="text-sm text-green-600 mt-1">Monthly visits</p>
                 </div>
 
-                <div className="bg-purple-50 rounded-lg p-6 border border-purple-200">
-                  <h3 className="text-lg font-semibold text-purple-900 mb-2">Gain to Position 3</h3>
-                  <p className="text-3xl font-bold text-purple-700">
-                    +{Math.round(summary.totalGainPosition3).toLocaleString()}
+                <div className="bg-red-50 rounded-lg p-6 border border-red-200">
+                  <h3 className="text-lg font-semibold text-red-900 mb-2">Traffic at Risk</h3>
+                  <p className="text-3xl font-bold text-red-700">
+                    -{Math.round(summary.totalTrafficAtRisk).toLocaleString()}
                   </p>
-                  <p className="text-sm text-purple-600 mt-1">Additional monthly visits</p>
+                  <p className="text-sm text-red-600 mt-1">Expected loss from drops</p>
                 </div>
 
                 <div className="bg-yellow-50 rounded-lg p-6 border border-yellow-200">
                   <h3 className="text-lg font-semibold text-yellow-900 mb-2">Expected Gain</h3>
                   <p className="text-3xl font-bold text-yellow-700">
-                    +{Math.round(summary.totalExpectedGain).toLocaleString()}
+                    {summary.totalExpectedGain < 0 ? '' : '+'}{Math.round(summary.totalExpectedGain).toLocaleString()}
                   </p>
                   <p className="text-sm text-yellow-600 mt-1">Weighted by effort</p>
                 </div>
               </div>
 
-              {/* Data Table */}
-              <div className="overflow-x-auto">
-                <div className="text-sm text-gray-600 mb-4">
-                  Showing {processedKeywords.length} keywords (filtered from {keywords.length} total)
+              {/* Traffic change if every keyword reached each outcome */}
+              {summary.outcomeTotals.length > 0 && (
+                <div className="grid md:grid-cols-4 gap-6 mb-8">
+                  {summary.outcomeTotals.map(total => (
+                    <div key={total.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                      <h3 className="text-sm font-semibold text-gray-900 mb-1">{total.label}</h3>
+                      <p className={`text-2xl font-bold ${total.downside ? 'text-red-700' : 'text-purple-700'}`}>
+                        {total.change < 0 ? '' : '+'}{Math.round(total.change).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">{total.downside ? 'Monthly visits lost' : 'Additional monthly visits'}</p>
+                    </div>
+                  ))}
                 </div>
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Keyword
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Position
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Search Volume
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Current Traffic
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Traffic at Pos 3
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Gain to Pos 3
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Traffic at Pos 2
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Gain to Pos 2
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Traffic at Pos 1
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Gain to Pos 1
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Expected Traffic
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Expected Gain
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {processedKeywords.map((keyword, index) => (
-                      <tr key={index} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          {keyword.keyword}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {keyword.position}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {keyword.searchVolume.toLocaleString()}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {Math.round(keyword.estimatedCurrentTraffic)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600">
-                          {Math.round(keyword.trafficPosition3)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          <span className={`font-medium ${keyword.gainPosition3 > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {keyword.gainPosition3 > 0 ? '+' : ''}{Math.round(keyword.gainPosition3)}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600">
-                          {Math.round(keyword.trafficPosition2)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          <span className={`font-medium ${keyword.gainPosition2 > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {keyword.gainPosition2 > 0 ? '+' : ''}{Math.round(keyword.gainPosition2)}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600">
-                          {Math.round(keyword.trafficPosition1)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          <span className={`font-medium ${keyword.gainPosition1 > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {keyword.gainPosition1 > 0 ? '+' : ''}{Math.round(keyword.gainPosition1)}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-purple-600">
-                          {Math.round(keyword.expectedTraffic)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          <span className={`font-medium ${keyword.expectedGain > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {keyword.expectedGain > 0 ? '+' : ''}{Math.round(keyword.expectedGain)}
-                          </span>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+              )}
+
+              {hasBusinessValue(businessValue, processedKeywords) && (
+                <div className="grid md:grid-cols-4 gap-6 mb-8">
+                  <div className="bg-blue-50 rounded-lg p-6 border border-blue-200">
+                    <h3 className="text-lg font-semibold text-blue-900 mb-2">Expected Conversions</h3>
+                    <p className="text-3xl font-bold text-blue-700">
+                      {Math.round(summary.totalExpectedConversions).toLocaleString()}
+                    </p>
+                    <p className="text-sm text-blue-600 mt-1">
+                      {Math.round(summary.totalCurrentConversions).toLocaleString()} today
+                    </p>
+                  </div>
+
+                  <div className="bg-green-50 rounded-lg p-6 border border-green-200">
+                    <h3 className="text-lg font-semibold text-green-900 mb-2">Expected Revenue</h3>
+                    <p className="text-3xl font-bold text-green-700">
+                      {formatMoney(summary.totalExpectedRevenue, businessValue.currency)}
+                    </p>
+                    <p className="text-sm text-green-600 mt-1">Monthly</p>
+                  </div>
+
+                  <div className="bg-purple-50 rounded-lg p-6 border border-purple-200">
+                    <h3 className="text-lg font-semibold text-purple-900 mb-2">Revenue Gain</h3>
+                    <p className="text-3xl font-bold text-purple-700">
+                      +{formatMoney(summary.totalRevenueGain, businessValue.currency)}
+                    </p>
+                    <p className="text-sm text-purple-600 mt-1">Additional monthly revenue</p>
+                  </div>
+
+                  <div className="bg-yellow-50 rounded-lg p-6 border border-yellow-200">
+                    <h3 className="text-lg font-semibold text-yellow-900 mb-2">Paid Search Value</h3>
+                    <p className="text-3xl font-bold text-yellow-700">
+                      {formatMoney(summary.totalExpectedPaidValue, businessValue.currency)}
+                    </p>
+                    <p className="text-sm text-yellow-600 mt-1">Expected traffic at CPC</p>
+                  </div>
+                </div>
+              )}
+
+              {keywordSources.length > 1 && (
+                <SourceBreakdown
+                  allSources={keywordSources}
+                  summaries={sourceSummaries}
+                  selected={selectedSources}
+                  onSelectedChange={setSelectedSources}
+                />
+              )}
+
+              {/* Data Table */}
+              <ResultsTable
+                rows={tableRows}
+                outcomes={modelConfig.outcomes}
+                filteredCount={processedKeywords.length}
+                totalCount={keywords.length}
+                view={tableView}
+                onViewChange={setTableView}
+              />
             </div>
+
+            <PageView processedKeywords={tableRows} />
+
+            <CannibalizationPanel
+              results={cannibalization}
+              options={cannibalizationOptions}
+              onOptionsChange={setCannibalizationOptions}
+            />
+
+            <CompetitorPanel
+              competitors={competitors}
+              processedKeywords={tableRows}
+              gaps={gaps}
+              competition={competition}
+              onCompetitorFiles={handleCompetitorUpload}
+              onRemove={id => setCompetitors(prev => prev.filter(c => c.id !== id))}
+              onCompetitionChange={setCompetition}
+            />
+
+            <ClusterPanel
+              clusters={clusters}
+              threshold={clusterThreshold}
+              onThresholdChange={setClusterThreshold}
+              overrides={clusterOverrides}
+              onOverridesChange={setClusterOverrides}
+            />
+
+            <RoadmapPanel
+              roadmap={roadmap}
+              options={roadmapOptions}
+              effortModel={effortModel}
+              currency={businessValue.currency}
+              onOptionsChange={setRoadmapOptions}
+              onEffortModelChange={setEffortModel}
+            />
+
+            <ScenarioPanel
+              scenarios={scenarios}
+              results={scenarioResults}
+              onSave={handleSaveScenario}
+              onApply={(scenario) => applyModelConfig({ ...DEFAULT_MODEL_CONFIG, ...scenario.config })}
+              onDelete={(id) => setScenarios(prev => prev.filter(s => s.id !== id))}
+            />
+
+            <SimulationPanel processedKeywords={processedKeywords} />
+
+            <ComparisonPanel
+              baselineName={baseline?.name ?? null}
+              comparison={comparison}
+              matchUrl={matchUrl}
+              onMatchUrlChange={setMatchUrl}
+              onBaselineFiles={handleBaselineUpload}
+              onClear={() => setBaseline(null)}
+            />
           </>
         )}
       </div>
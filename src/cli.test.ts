@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CliError, DEFAULT_SETTINGS, parseCliArgs, readSettings, run } from './cli';
+
+let dir: string;
+
+const writeFile = (name: string, content: string) => {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+};
+
+const cliError = (fn: () => unknown): CliError => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof CliError) return err;
+    throw err;
+  }
+  throw new Error('Expected a CliError');
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'forecast-cli-'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('parseCliArgs', () => {
+  it('reads the files and options, with defaults', () => {
+    expect(parseCliArgs(['a.csv', 'b.xlsx'])).toMatchObject({ files: ['a.csv', 'b.xlsx'], out: '.', formats: ['xlsx'], help: false });
+    expect(parseCliArgs(['a.csv', '--format', 'CSV, json,csv', '--decimal', ',', '--title', 'Shoes']))
+      .toMatchObject({ formats: ['csv', 'json'], decimal: ',', title: 'Shoes' });
+    expect(parseCliArgs(['-h']).help).toBe(true);
+  });
+
+  it.each([
+    [[]],
+    [['a.csv', '--format', 'pdf']],
+    [['a.csv', '--decimal', ';']],
+    [['a.csv', '--unknown']]
+  ])('rejects %j with exit code 2', argv => {
+    expect(cliError(() => parseCliArgs(argv)).exitCode).toBe(2);
+  });
+});
+
+describe('readSettings', () => {
+  it('merges a partial config with the defaults, nested settings included', () => {
+    const settings = readSettings(writeFile('config.json', JSON.stringify({
+      upliftCtr: 12,
+      segmentation: { brandTerms: ['acme'] }
+    })));
+    expect(settings).toEqual({
+      ...DEFAULT_SETTINGS,
+      upliftCtr: 12,
+      segmentation: { ...DEFAULT_SETTINGS.segmentation, brandTerms: ['acme'] }
+    });
+  });
+
+  it('reads the settings of a project export', () => {
+    const path = writeFile('project.json', JSON.stringify({ format: 'semrush-traffic-gain-project', settings: { maxPosition: 30 } }));
+    expect(readSettings(path).maxPosition).toBe(30);
+  });
+
+  it.each([
+    [{ transitions: [] }, 'transitions'],
+    [{ upliftCtr: 'high' }, 'upliftCtr'],
+    [[1, 2], 'not a model config']
+  ])('rejects invalid settings %j with exit code 2', (settings, message) => {
+    const error = cliError(() => readSettings(writeFile('config.json', JSON.stringify(settings))));
+    expect(error.exitCode).toBe(2);
+    expect(error.message).toContain(message);
+  });
+
+  it('rejects missing or malformed files with exit code 1', () => {
+    expect(cliError(() => readSettings(join(dir, 'missing.json'))).exitCode).toBe(1);
+    expect(cliError(() => readSettings(writeFile('config.json', '{'))).exitCode).toBe(1);
+  });
+});
+
+describe('run', () => {
+  const exportCsv = 'Keyword,Position,Search Volume\nrunning shoes,8,1000\ntrail shoes,15,500\n';
+
+  it('writes the requested reports', () => {
+    const input = writeFile('keywords.csv', exportCsv);
+    const out = join(dir, 'out');
+    run([input, '--out', out, '--format', 'csv,json', '--title', 'Shoes']);
+    const files = readdirSync(out).sort();
+    expect(files).toHaveLength(2);
+    const report = JSON.parse(readFileSync(join(out, files[1]), 'utf8'));
+    expect(report.title).toBe('Shoes');
+    expect(report.keywords).toHaveLength(2);
+  });
+
+  it('applies the config file', () => {
+    const input = writeFile('keywords.csv', exportCsv);
+    const config = writeFile('config.json', JSON.stringify({ maxPosition: 10 }));
+    run([input, '--out', dir, '--format', 'json', '--config', config]);
+    const report = readdirSync(dir).find(f => f.endsWith('.json') && f !== 'config.json') ?? '';
+    expect(JSON.parse(readFileSync(join(dir, report), 'utf8')).keywords).toHaveLength(1);
+  });
+
+  it('rejects missing, unsupported or unrecognised input with exit code 1', () => {
+    expect(cliError(() => run([join(dir, 'missing.csv')])).exitCode).toBe(1);
+    expect(cliError(() => run([writeFile('notes.txt', 'hello')])).exitCode).toBe(1);
+    expect(cliError(() => run([writeFile('other.csv', 'Name,Score\na,1\n')])).exitCode).toBe(1);
+  });
+});
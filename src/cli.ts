@@ -0,0 +1,244 @@
+// Headless entry point for scheduled jobs: npm run build:cli, then
+// npm run forecast -- <exports...> [options]. See --help.
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import * as XLSX from 'xlsx';
+import type { ColumnMapping } from './types';
+import { DEFAULT_MODEL_CONFIG, processKeywords, summarizeKeywords } from './lib/forecast';
+import { sourcesFromData, UnsupportedFileError } from './lib/fileParsing';
+import { includedRawSources, sourceColumns } from './lib/sources';
+import { detectSchema, EMPTY_COLUMN_MAPPING, hasRequiredColumns } from './lib/schemas';
+import { mapSources } from './lib/importer';
+import type { DecimalSeparator } from './lib/importer';
+import { clusterKeywords, DEFAULT_CLUSTERING_OPTIONS, summarizeClusters, withClusterNames } from './lib/clustering';
+import { buildRoadmap, DEFAULT_ROADMAP_OPTIONS } from './lib/prioritization';
+import { buildTimeline } from './lib/timeline';
+import { findCannibalization, DEFAULT_CANNIBALIZATION_OPTIONS } from './lib/cannibalization';
+import { runScenario } from './lib/scenarios';
+import { invalidProjectSettings, mergeProjectSettings } from './lib/projects';
+import type { ProjectSettings } from './lib/projects';
+import { buildWorkbook } from './lib/export';
+import { buildHtmlReport, keywordsCsv, reportJson } from './lib/report';
+import type { ReportContent } from './lib/report';
+import { exportFileName } from './lib/download';
+
+const USAGE = `Usage: npm run forecast -- <export.csv|export.xlsx ...> [options]
+
+Options:
+  --mapping <file>    Column mapping JSON ({ "keyword": "...", "position": "...", "volume": "...", ... }).
+                      Detected from the headers when omitted.
+  --config <file>     Model config JSON (CTR table, uplift, effort, filters...) or a project
+                      exported from the app. Missing settings, nested ones included, use the app defaults.
+  --out <dir>         Output directory (default: current directory)
+  --format <list>     Comma-separated outputs among xlsx, csv, json, html (default: xlsx)
+  --title <name>      Project name used in the reports and file names (default: domain)
+  --decimal <. or ,>  Decimal separator of the exports (default: detected per column)
+  -h, --help          Show this help
+
+Exit codes: 0 on success, 1 on unreadable or invalid input files, 2 on invalid arguments or settings.`;
+
+const FORMATS = ['xlsx', 'csv', 'json', 'html'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+// Exit code 2 marks arguments or settings to fix, 1 input files that can't be used
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode = 1) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+const readJson = (path: string): unknown => {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch {
+    throw new CliError(`Cannot read ${path}.`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CliError(`${path} is not valid JSON.`);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const DEFAULT_SETTINGS: ProjectSettings = { ...DEFAULT_MODEL_CONFIG, columnMapping: EMPTY_COLUMN_MAPPING, scenarios: [] };
+
+// Project exports keep the model config, column mapping and scenarios under "settings".
+// Missing settings, nested ones included, fall back to the defaults like in the app
+export const readSettings = (path: string): ProjectSettings => {
+  const data = readJson(path);
+  const settings = isObject(data) && isObject(data.settings) ? data.settings : data;
+  if (!isObject(settings)) throw new CliError(`${path} is not a model config.`, 2);
+
+  const merged = mergeProjectSettings(settings, DEFAULT_SETTINGS);
+  const invalid = invalidProjectSettings(merged);
+  if (invalid.length > 0) throw new CliError(`${path}: invalid ${invalid.join(', ')}.`, 2);
+  return merged;
+};
+
+const parseFormats = (value: string): OutputFormat[] => {
+  const formats = value.split(',').map(f => f.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(f => !FORMATS.includes(f as OutputFormat));
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new CliError(`Unknown format: ${unknown.join(', ') || value}. Use ${FORMATS.join(', ')}.`, 2);
+  }
+  return Array.from(new Set(formats as OutputFormat[]));
+};
+
+export interface CliOptions {
+  files: string[];
+  mapping?: string;
+  config?: string;
+  out: string;
+  formats: OutputFormat[];
+  title?: string;
+  decimal?: DecimalSeparator;
+  help: boolean;
+}
+
+export const parseCliArgs = (argv: string[]): CliOptions => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        mapping: { type: 'string' },
+        config: { type: 'string' },
+        out: { type: 'string', default: '.' },
+        format: { type: 'string', default: 'xlsx' },
+        title: { type: 'string' },
+        decimal: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (err) {
+    throw new CliError(err instanceof Error ? err.message : String(err), 2);
+  }
+  const { values, positionals: files } = parsed;
+  const help = values.help ?? false;
+  if (files.length === 0 && !help) throw new CliError('No export files given.', 2);
+  if (values.decimal !== undefined && values.decimal !== '.' && values.decimal !== ',') {
+    throw new CliError('--decimal must be "." or ",".', 2);
+  }
+  return {
+    files,
+    mapping: values.mapping,
+    config: values.config,
+    out: values.out ?? '.',
+    formats: parseFormats(values.format ?? 'xlsx'),
+    title: values.title,
+    decimal: values.decimal as DecimalSeparator | undefined,
+    help
+  };
+};
+
+export const run = (argv: string[]): void => {
+  const { files, formats, help, ...values } = parseCliArgs(argv);
+  if (help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const { columnMapping, scenarios, ...config }: ProjectSettings = values.config ? readSettings(values.config) : DEFAULT_SETTINGS;
+
+  // Same parsing as dropping the files in the app; only the first sheet of a workbook is used
+  const sources = files.flatMap(file => {
+    let data: Buffer;
+    try {
+      data = readFileSync(file);
+    } catch {
+      throw new CliError(`Cannot read ${file}.`);
+    }
+    try {
+      return sourcesFromData(basename(file), new Uint8Array(data));
+    } catch (err) {
+      if (err instanceof UnsupportedFileError) throw new CliError(`${file}: unsupported file type. Use CSV or XLSX.`);
+      throw new CliError(`${file}: could not be parsed.`);
+    }
+  });
+  const included = sources.filter(source => source.included);
+  if (included.length === 0) throw new CliError('No data found in the files.');
+
+  const columns = sourceColumns(sources);
+  // A config without any mapped column leaves the mapping to the header detection
+  const givenMapping = values.mapping
+    ? readJson(values.mapping)
+    : Object.values(columnMapping).some(Boolean) ? columnMapping : undefined;
+  if (givenMapping !== undefined && !isObject(givenMapping)) throw new CliError('The column mapping must be a JSON object.');
+  const mapping: ColumnMapping = givenMapping
+    ? { ...EMPTY_COLUMN_MAPPING, ...givenMapping }
+    : detectSchema(included[0].columns).mapping;
+  if (!hasRequiredColumns(mapping)) {
+    throw new CliError('Could not recognise the keyword, position and volume columns. Pass --mapping.');
+  }
+  const missing = Object.values(mapping).filter(column => column && !columns.includes(column));
+  if (missing.length > 0) throw new CliError(`Columns not found in the exports: ${missing.join(', ')}.`);
+
+  const { keywords, report } = mapSources(includedRawSources(sources), mapping, {
+    decimalSeparator: values.decimal
+  });
+  if (keywords.length === 0) throw new CliError('No valid keyword rows in the exports.');
+  console.error(`Imported ${report.imported} keywords, rejected ${report.rejected.length} rows.`);
+
+  // Same pipeline as the app with its default view: clusters, roadmap, timeline and scenarios
+  const processed = processKeywords(keywords, config);
+  if (processed.length === 0) console.error('Warning: no keyword matches the volume and position filters.');
+  const summary = summarizeKeywords(processed);
+  const assignment = clusterKeywords(keywords, DEFAULT_CLUSTERING_OPTIONS);
+  const clusters = summarizeClusters(processed, assignment);
+  const rows = withClusterNames(processed, clusters);
+  const timeline = buildTimeline(processed, config.timeline);
+  const title = values.title ?? (included.find(s => s.tags.domain)?.tags.domain || null);
+
+  const content: ReportContent = { title, processedKeywords: rows, summary, config, clusters, timeline };
+  const outputs: { [F in OutputFormat]: () => string | Buffer } = {
+    xlsx: () => XLSX.write(
+      buildWorkbook(rows, summary, config, {
+        title,
+        clusters,
+        roadmap: buildRoadmap(processed, config.effortModel, DEFAULT_ROADMAP_OPTIONS),
+        timeline,
+        scenarios: scenarios.map(scenario => runScenario(keywords, scenario)),
+        cannibalization: findCannibalization(keywords, config, DEFAULT_CANNIBALIZATION_OPTIONS)
+      }),
+      { type: 'buffer', bookType: 'xlsx' }
+    ),
+    csv: () => keywordsCsv(rows),
+    json: () => reportJson(content),
+    html: () => buildHtmlReport(content)
+  };
+
+  try {
+    mkdirSync(values.out, { recursive: true });
+  } catch {
+    throw new CliError(`Cannot create ${values.out}.`);
+  }
+  for (const format of formats) {
+    const path = join(values.out, exportFileName(title, format));
+    writeFileSync(path, outputs[format]());
+    console.log(path);
+  }
+};
+
+// Only runs when started as a script, so the tests can import the module
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  try {
+    run(process.argv.slice(2));
+  } catch (err) {
+    if (err instanceof CliError) {
+      console.error(`Error: ${err.message}`);
+      if (err.exitCode === 2) console.error(`\n${USAGE}`);
+      process.exitCode = err.exitCode;
+    } else {
+      console.error(err);
+      process.exitCode = 1;
+    }
+  }
+}
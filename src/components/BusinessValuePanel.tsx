@@ -0,0 +1,139 @@
+import { DollarSign, Plus, Trash2 } from 'lucide-react';
+import type { BusinessValueConfig, KeywordSegment, ValueRule } from '../types';
+import { CURRENCIES } from '../lib/businessValue';
+import { isValidPattern, SEGMENTS } from '../lib/segments';
+
+interface BusinessValuePanelProps {
+  value: BusinessValueConfig;
+  onChange: (value: BusinessValueConfig) => void;
+}
+
+function BusinessValuePanel({ value, onChange }: BusinessValuePanelProps) {
+  const updateRule = (index: number, patch: Partial<ValueRule>) =>
+    onChange({ ...value, rules: value.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+  const addRule = () =>
+    onChange({
+      ...value,
+      rules: [...value.rules, { scope: 'url', match: '', conversionRate: value.conversionRate, averageOrderValue: value.averageOrderValue }]
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+        <DollarSign className="mr-2" size={24} />
+        Business Value
+      </h2>
+
+      <div className="grid md:grid-cols-3 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Conversion Rate (%)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={value.conversionRate}
+            onChange={(e) => onChange({ ...value, conversionRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Average Order Value</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={value.averageOrderValue}
+            onChange={(e) => onChange({ ...value, averageOrderValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
+          <select
+            value={value.currency}
+            onChange={(e) => onChange({ ...value, currency: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium text-gray-700">Rates per URL pattern or segment (first match wins)</label>
+        <button onClick={addRule} className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+          <Plus className="mr-1" size={14} />
+          Add rule
+        </button>
+      </div>
+      <div className="space-y-2">
+        {value.rules.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              value={rule.scope}
+              onChange={(e) => {
+                const scope = e.target.value as ValueRule['scope'];
+                updateRule(index, { scope, match: scope === 'segment' ? SEGMENTS[0].id : '' });
+              }}
+              className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="url">URL matches</option>
+              <option value="segment">Segment is</option>
+            </select>
+            {rule.scope === 'url' ? (
+              <input
+                type="text"
+                value={rule.match}
+                onChange={(e) => updateRule(index, { match: e.target.value })}
+                placeholder="/products/"
+                className={`flex-1 px-2 py-1 text-sm font-mono border rounded focus:ring-blue-500 focus:border-blue-500 ${
+                  rule.match && !isValidPattern(rule.match) ? 'border-red-400' : 'border-gray-300'
+                }`}
+              />
+            ) : (
+              <select
+                value={rule.match}
+                onChange={(e) => updateRule(index, { match: e.target.value as KeywordSegment })}
+                className="flex-1 border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {SEGMENTS.map(segment => (
+                  <option key={segment.id} value={segment.id}>{segment.label}</option>
+                ))}
+              </select>
+            )}
+            <label className="text-xs text-gray-600">CR %</label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={rule.conversionRate}
+              onChange={(e) => updateRule(index, { conversionRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+            <label className="text-xs text-gray-600">AOV</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={rule.averageOrderValue}
+              onChange={(e) => updateRule(index, { averageOrderValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-24 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={() => onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) })}
+              className="text-gray-400 hover:text-gray-700"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        {value.rules.length === 0 && <p className="text-sm text-gray-500">Every keyword uses the rates above.</p>}
+      </div>
+    </div>
+  );
+}
+
+export default BusinessValuePanel;
@@ -0,0 +1,93 @@
+import { Copy } from 'lucide-react';
+import type { CannibalizationOptions, CannibalizedKeyword } from '../lib/cannibalization';
+
+interface CannibalizationPanelProps {
+  results: CannibalizedKeyword[];
+  options: CannibalizationOptions;
+  onOptionsChange: (options: CannibalizationOptions) => void;
+}
+
+const MAX_ROWS = 200;
+
+const renderGain = (gain: number) => (
+  <span className={`font-medium ${gain > 0 ? 'text-green-600' : 'text-red-600'}`}>
+    {gain > 0 ? '+' : ''}{Math.round(gain).toLocaleString()}
+  </span>
+);
+
+function CannibalizationPanel({ results, options, onOptionsChange }: CannibalizationPanelProps) {
+  const duplicateGain = results.reduce((sum, r) => sum + r.duplicateGain, 0);
+  const consolidationGain = results.reduce((sum, r) => sum + Math.max(0, r.consolidationGain), 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <Copy className="mr-2" size={24} />
+          Cannibalization
+        </h2>
+        <label className="flex items-center text-sm text-gray-700">
+          Positions gained by consolidating
+          <input
+            type="number"
+            min="0"
+            max="10"
+            value={options.consolidationBoost}
+            onChange={(e) => onOptionsChange({ ...options, consolidationBoost: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+          />
+        </label>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-sm text-gray-500">No keyword ranks with more than one URL.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {results.length.toLocaleString()} keywords rank with several URLs. The forecast counts each of them once, with its
+            best-ranking URL, which leaves out {Math.round(duplicateGain).toLocaleString()} visits of double-counted gain.
+            Consolidating the pages could add{' '}
+            <span className="font-semibold text-green-600">{Math.round(consolidationGain).toLocaleString()}</span> monthly visits.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Keyword', 'Search Volume', 'Competing Pages', 'Current Traffic', 'Consolidated Traffic', 'Consolidation Gain'].map(label => (
+                    <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {results.slice(0, MAX_ROWS).map(r => (
+                  <tr key={`${r.source ?? ''}|${r.keyword}`} className="align-top">
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{r.keyword}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{r.searchVolume.toLocaleString()}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      {r.pages.map((page, index) => (
+                        <div key={page.url ?? index} className="flex gap-2 max-w-md">
+                          <span className={`w-10 shrink-0 ${index === 0 ? 'font-semibold text-gray-900' : ''}`}>#{page.position}</span>
+                          <span className="truncate" title={page.url}>{page.url || '(no URL)'}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{Math.round(r.currentTraffic).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-sm text-blue-600">{Math.round(r.consolidatedTraffic).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-sm">{renderGain(r.consolidationGain)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {results.length > MAX_ROWS && (
+            <p className="text-sm text-gray-500 mt-2">
+              Showing the first {MAX_ROWS} of {results.length.toLocaleString()} keywords. The export contains every row.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CannibalizationPanel;
@@ -0,0 +1,157 @@
+import { Fragment, useState } from 'react';
+import { ChevronDown, ChevronRight, Layers, Merge, Scissors } from 'lucide-react';
+import { keywordKey } from '../lib/clustering';
+import type { ClusterOverrides, KeywordCluster } from '../lib/clustering';
+
+interface ClusterPanelProps {
+  clusters: KeywordCluster[];
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  overrides: ClusterOverrides;
+  onOverridesChange: (overrides: ClusterOverrides) => void;
+}
+
+const MAX_CLUSTERS = 200;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString()}`;
+
+function ClusterPanel({ clusters, threshold, onThresholdChange, overrides, onOverridesChange }: ClusterPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  // Everything selected is folded into the selected cluster with the largest gain
+  const mergeSelected = () => {
+    const [target, ...others] = clusters.filter(c => selected.includes(c.id)).map(c => c.id);
+    if (!target || others.length === 0) return;
+    const merged = { ...overrides.merged };
+    others.forEach(id => { merged[id] = target; });
+    onOverridesChange({ ...overrides, merged });
+    setSelected([]);
+  };
+
+  const splitKeyword = (key: string) => {
+    if (overrides.split.includes(key)) return;
+    onOverridesChange({ ...overrides, split: [...overrides.split, key] });
+  };
+
+  const hasOverrides = overrides.split.length > 0 || Object.keys(overrides.merged).length > 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <Layers className="mr-2" size={24} />
+          Topics
+        </h2>
+        <div className="flex items-center gap-4">
+          <label className="text-sm text-gray-700 flex items-center">
+            Similarity
+            <input
+              type="range"
+              min="0.2"
+              max="0.9"
+              step="0.05"
+              value={threshold}
+              onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+              className="mx-2"
+            />
+            {Math.round(threshold * 100)}%
+          </label>
+          <button
+            onClick={mergeSelected}
+            disabled={selected.length < 2}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            <Merge className="mr-2" size={16} />
+            Merge selected
+          </button>
+          {hasOverrides && (
+            <button
+              onClick={() => onOverridesChange({ merged: {}, split: [] })}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Undo manual edits
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Keywords are grouped by shared words and ranking URL. The deduplicated gain counts close variants of the same query only once.
+      </p>
+
+      <div className="overflow-auto max-h-[600px] border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {['', 'Topic', 'Keywords', 'Current Traffic', 'Expected Gain', 'Deduplicated Gain'].map(label => (
+                <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {clusters.slice(0, MAX_CLUSTERS).map(cluster => (
+              <Fragment key={cluster.id}>
+                <tr className="hover:bg-gray-50">
+                  <td className="px-4 py-2">
+                    <input type="checkbox" checked={selected.includes(cluster.id)} onChange={() => toggleSelected(cluster.id)} />
+                  </td>
+                  <td
+                    onClick={() => setExpanded(expanded === cluster.id ? null : cluster.id)}
+                    className="px-4 py-2 text-sm font-medium text-gray-900 cursor-pointer"
+                  >
+                    <span className="inline-flex items-center">
+                      {expanded === cluster.id ? <ChevronDown className="mr-1" size={14} /> : <ChevronRight className="mr-1" size={14} />}
+                      {cluster.name}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{cluster.keywords.length.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{Math.round(cluster.currentTraffic).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{signed(cluster.expectedGain)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <span className={`font-medium ${cluster.dedupedGain > 0 ? 'text-green-600' : 'text-red-600'}`}>{signed(cluster.dedupedGain)}</span>
+                  </td>
+                </tr>
+                {expanded === cluster.id && cluster.keywords.map(k => (
+                  <tr key={keywordKey(k)} className="bg-gray-50 text-xs">
+                    <td className="px-4 py-1" />
+                    <td className="pl-10 pr-4 py-1 text-gray-700">
+                      {k.keyword}
+                      {k.url && <span className="text-gray-400"> — {k.url}</span>}
+                    </td>
+                    <td className="px-4 py-1 text-gray-500">{k.searchVolume.toLocaleString()} searches</td>
+                    <td className="px-4 py-1 text-gray-700">{Math.round(k.estimatedCurrentTraffic)}</td>
+                    <td className="px-4 py-1 text-gray-500">{signed(k.expectedGain)}</td>
+                    <td className="px-4 py-1">
+                      {cluster.keywords.length > 1 && (
+                        <button
+                          onClick={() => splitKeyword(keywordKey(k))}
+                          className="inline-flex items-center text-gray-500 hover:text-gray-800"
+                        >
+                          <Scissors className="mr-1" size={12} />
+                          Split out
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {clusters.length > MAX_CLUSTERS && (
+        <p className="text-xs text-gray-500 mt-2">
+          Showing the {MAX_CLUSTERS} topics with the largest gain of {clusters.length.toLocaleString()}. The export contains every topic.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ClusterPanel;
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { GitCompare, Upload } from 'lucide-react';
+import type { ComparisonResult, ComparisonStatus } from '../lib/comparison';
+
+interface ComparisonPanelProps {
+  baselineName: string | null;
+  comparison: ComparisonResult | null;
+  matchUrl: boolean;
+  onMatchUrlChange: (matchUrl: boolean) => void;
+  onBaselineFiles: (files: File[]) => void;
+  onClear: () => void;
+}
+
+const MAX_ROWS = 200;
+
+const STATUS_STYLES: { [K in ComparisonStatus]: string } = {
+  kept: 'bg-gray-100 text-gray-700',
+  new: 'bg-green-100 text-green-700',
+  lost: 'bg-red-100 text-red-700'
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString()}`;
+
+function ComparisonPanel({ baselineName, comparison, matchUrl, onMatchUrlChange, onBaselineFiles, onClear }: ComparisonPanelProps) {
+  const [statusFilter, setStatusFilter] = useState<ComparisonStatus | 'all'>('all');
+
+  const rows = comparison
+    ? comparison.rows.filter(r => statusFilter === 'all' || r.status === statusFilter)
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <GitCompare className="mr-2" size={24} />
+          Historical Comparison
+        </h2>
+        <div className="flex items-center gap-4">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input type="checkbox" checked={matchUrl} onChange={(e) => onMatchUrlChange(e.target.checked)} className="mr-2" />
+            Match on keyword + URL
+          </label>
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            multiple
+            onChange={(e) => {
+              if (e.target.files?.length) {
+                onBaselineFiles(Array.from(e.target.files));
+              }
+              e.target.value = '';
+            }}
+            className="hidden"
+            id="baseline-file-input"
+          />
+          <label
+            htmlFor="baseline-file-input"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer transition-colors"
+          >
+            <Upload className="mr-2" size={16} />
+            {baselineName ? 'Replace Baseline' : 'Load Baseline Export'}
+          </label>
+          {baselineName && (
+            <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-700">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!comparison && (
+        <p className="text-sm text-gray-500">
+          Load a previous export of the same domain to see position and traffic changes, new and lost keywords, and how the
+          forecast made from that export compares with what actually happened.
+        </p>
+      )}
+
+      {comparison && (
+        <>
+          <p className="text-sm text-gray-600 mb-4">Baseline: {baselineName}</p>
+          <div className="grid md:grid-cols-4 gap-6 mb-8">
+            <div className="bg-blue-50 rounded-lg p-6 border border-blue-200">
+              <h3 className="text-lg font-semibold text-blue-900 mb-2">Traffic Change</h3>
+              <p className="text-3xl font-bold text-blue-700">
+                {signed(comparison.totalCurrentTraffic - comparison.totalBaselineTraffic)}
+              </p>
+              <p className="text-sm text-blue-600 mt-1">
+                {Math.round(comparison.totalBaselineTraffic).toLocaleString()} → {Math.round(comparison.totalCurrentTraffic).toLocaleString()}
+              </p>
+            </div>
+            <div className="bg-green-50 rounded-lg p-6 border border-green-200">
+              <h3 className="text-lg font-semibold text-green-900 mb-2">Keywords</h3>
+              <p className="text-3xl font-bold text-green-700">
+                +{comparison.counts.new.toLocaleString()} / −{comparison.counts.lost.toLocaleString()}
+              </p>
+              <p className="text-sm text-green-600 mt-1">New / lost, {comparison.counts.kept.toLocaleString()} kept</p>
+            </div>
+            <div className="bg-purple-50 rounded-lg p-6 border border-purple-200">
+              <h3 className="text-lg font-semibold text-purple-900 mb-2">Positions</h3>
+              <p className="text-3xl font-bold text-purple-700">
+                {comparison.improved.toLocaleString()} ↑ / {comparison.declined.toLocaleString()} ↓
+              </p>
+              <p className="text-sm text-purple-600 mt-1">Improved / declined</p>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-6 border border-yellow-200">
+              <h3 className="text-lg font-semibold text-yellow-900 mb-2">Forecast vs Actual</h3>
+              <p className="text-3xl font-bold text-yellow-700">
+                {signed(comparison.totalCurrentTraffic - comparison.totalForecastTraffic)}
+              </p>
+              <p className="text-sm text-yellow-600 mt-1">
+                Forecast {Math.round(comparison.totalForecastTraffic).toLocaleString()}, MAE {comparison.forecastMae.toFixed(1)} / keyword
+              </p>
+            </div>
+          </div>
+
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Probability Model Backtest</h3>
+          <div className="overflow-x-auto mb-8">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Baseline Position</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keywords</th>
+                  {['Stay', ...comparison.outcomeLabels].map(label => (
+                    <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {label} (actual / model)
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {comparison.buckets.filter(b => b.keywords > 0).map(bucket => (
+                  <tr key={bucket.label}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{bucket.label}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{bucket.keywords.toLocaleString()}</td>
+                    {[bucket.observed.stay, ...bucket.observed.outcomes].map((observed, i) => (
+                      <td key={i} className="px-4 py-2 text-sm text-gray-700">
+                        {percent(observed)} / <span className="text-gray-400">{percent([bucket.predicted.stay, ...bucket.predicted.outcomes][i])}</span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-semibold text-gray-900">Keyword Changes</h3>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ComparisonStatus | 'all')}
+              className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="all">All keywords</option>
+              <option value="kept">Kept</option>
+              <option value="new">New</option>
+              <option value="lost">Lost</option>
+            </select>
+          </div>
+          <div className="overflow-auto max-h-[600px] border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {['Keyword', 'Status', 'Position', 'Change', 'Traffic', 'Traffic Change', 'Forecast', 'Actual − Forecast'].map(label => (
+                    <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.slice(0, MAX_ROWS).map((row, index) => (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {row.keyword}
+                      {row.url && <div className="text-xs text-gray-400 font-normal truncate max-w-xs">{row.url}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {row.baselinePosition ?? '–'} → {row.currentPosition ?? '–'}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {row.positionDelta !== undefined && (
+                        <span className={`font-medium ${row.positionDelta > 0 ? 'text-green-600' : row.positionDelta < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {row.positionDelta > 0 ? '+' : ''}{row.positionDelta}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {Math.round(row.baselineTraffic)} → {Math.round(row.currentTraffic)}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <span className={`font-medium ${row.trafficDelta > 0 ? 'text-green-600' : 'text-red-600'}`}>{signed(row.trafficDelta)}</span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-purple-600">{Math.round(row.forecastTraffic)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{row.status === 'new' ? '–' : signed(row.forecastError)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {rows.length > MAX_ROWS && (
+            <p className="text-xs text-gray-500 mt-2">
+              Showing the {MAX_ROWS} largest traffic changes of {rows.length.toLocaleString()}. The export contains every row.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComparisonPanel;
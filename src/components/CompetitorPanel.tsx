@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Swords, Trash2, Upload } from 'lucide-react';
+import type { CompetitionConfig, CompetitorRanking, ProcessedKeyword } from '../types';
+import { competitorsAbove } from '../lib/competitors';
+import type { Competitor, GapOpportunity } from '../lib/competitors';
+
+interface CompetitorPanelProps {
+  competitors: Competitor[];
+  processedKeywords: ProcessedKeyword[];
+  gaps: GapOpportunity[];
+  competition: CompetitionConfig;
+  onCompetitorFiles: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onCompetitionChange: (competition: CompetitionConfig) => void;
+}
+
+const MAX_ROWS = 200;
+
+const renderRankings = (rankings: CompetitorRanking[]) =>
+  rankings.map(c => `${c.domain} #${c.position}`).join(', ');
+
+function CompetitorPanel({
+  competitors,
+  processedKeywords,
+  gaps,
+  competition,
+  onCompetitorFiles,
+  onRemove,
+  onCompetitionChange
+}: CompetitorPanelProps) {
+  const [view, setView] = useState<'above' | 'gap'>('above');
+
+  const outranked = processedKeywords
+    .map(k => ({ keyword: k, above: competitorsAbove(k) }))
+    .filter(r => r.above.length > 0)
+    .sort((a, b) => b.keyword.expectedGain - a.keyword.expectedGain);
+  const gapTraffic = gaps.reduce((sum, g) => sum + g.expectedTraffic, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <Swords className="mr-2" size={24} />
+          Competitors
+        </h2>
+        <div>
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            multiple
+            onChange={(e) => {
+              if (e.target.files?.length) {
+                onCompetitorFiles(Array.from(e.target.files));
+              }
+              e.target.value = '';
+            }}
+            className="hidden"
+            id="competitor-file-input"
+          />
+          <label
+            htmlFor="competitor-file-input"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer transition-colors"
+          >
+            <Upload className="mr-2" size={16} />
+            Add competitor exports
+          </label>
+        </div>
+      </div>
+
+      {competitors.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Upload the organic keyword exports of your competitors to see who ranks above you and which keywords only they rank for.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {competitors.map(c => (
+              <span key={c.id} className="inline-flex items-center px-3 py-1 rounded-full bg-gray-100 text-sm text-gray-700">
+                {c.domain} ({c.keywords.length.toLocaleString()})
+                <button onClick={() => onRemove(c.id)} className="ml-2 text-gray-400 hover:text-gray-700">
+                  <Trash2 size={14} />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={competition.adjustProbabilities}
+                onChange={(e) => onCompetitionChange({ ...competition, adjustProbabilities: e.target.checked })}
+                className="mr-2"
+              />
+              Lower improvement odds by
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={competition.penaltyPerCompetitor}
+              onChange={(e) => onCompetitionChange({ ...competition, penaltyPerCompetitor: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+            <span className="text-sm text-gray-700">% per competitor holding a top-3 spot above us</span>
+          </div>
+
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={() => setView('above')}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${view === 'above' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              Ranking above us ({outranked.length.toLocaleString()})
+            </button>
+            <button
+              onClick={() => setView('gap')}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${view === 'gap' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              Content gap ({gaps.length.toLocaleString()})
+            </button>
+          </div>
+
+          {view === 'above' ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Keyword', 'Our Position', 'Ranking Above Us', 'Expected Gain'].map(label => (
+                      <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {outranked.slice(0, MAX_ROWS).map(({ keyword, above }, index) => (
+                    <tr key={index}>
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">{keyword.keyword}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{keyword.position}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{renderRankings(above)}</td>
+                      <td className="px-4 py-2 text-sm text-green-600">+{Math.round(keyword.expectedGain).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {outranked.length > MAX_ROWS && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Showing the first {MAX_ROWS} of {outranked.length.toLocaleString()} keywords. The export contains every row.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <p className="text-sm text-gray-600 mb-4">
+                Keywords only competitors rank for could bring an expected{' '}
+                <span className="font-semibold text-green-600">{Math.round(gapTraffic).toLocaleString()}</span> monthly visits
+                with new content, starting from unranked.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Keyword', 'Search Volume', 'Competitors', 'Traffic at Pos 3', 'Traffic at Pos 1', 'Expected Traffic'].map(label => (
+                      <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {gaps.slice(0, MAX_ROWS).map(gap => (
+                    <tr key={gap.keyword}>
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">{gap.keyword}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{gap.searchVolume.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{renderRankings(gap.competitors)}</td>
+                      <td className="px-4 py-2 text-sm text-blue-600">{Math.round(gap.trafficPosition3).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-blue-600">{Math.round(gap.trafficPosition1).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-purple-600">{Math.round(gap.expectedTraffic).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {gaps.length > MAX_ROWS && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Showing the first {MAX_ROWS} of {gaps.length.toLocaleString()} keywords. The export contains every row.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CompetitorPanel;
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Save, Target, Trash2 } from 'lucide-react';
+import type { CtrTable } from '../types';
+import {
+  BUILT_IN_CTR_PROFILES,
+  deleteCustomCtrProfile,
+  loadCustomCtrProfiles,
+  saveCustomCtrProfile
+} from '../lib/ctrProfiles';
+import type { CtrProfile } from '../lib/ctrProfiles';
+
+interface CtrEditorProps {
+  ctrValues: CtrTable;
+  upliftCtr: number;
+  onChange: (ctrValues: CtrTable) => void;
+}
+
+const POSITIONS = Array.from({ length: 20 }, (_, i) => i + 1);
+
+const sameCurve = (a: CtrTable, b: CtrTable) => POSITIONS.every(p => (a[p] || 0) === (b[p] || 0));
+
+function CtrEditor({ ctrValues, upliftCtr, onChange }: CtrEditorProps) {
+  const [customProfiles, setCustomProfiles] = useState<CtrProfile[]>(loadCustomCtrProfiles);
+  const profiles = [...BUILT_IN_CTR_PROFILES, ...customProfiles];
+  const activeProfile = profiles.find(p => sameCurve(p.values, ctrValues));
+
+  const handleSaveProfile = () => {
+    const name = prompt('Profile name', activeProfile && !activeProfile.builtIn ? activeProfile.name : '');
+    if (!name?.trim()) return;
+    setCustomProfiles(saveCustomCtrProfile(name.trim(), ctrValues));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <Target className="mr-2" size={24} />
+          CTR by Position (%)
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={activeProfile?.id ?? ''}
+            onChange={(e) => {
+              const profile = profiles.find(p => p.id === e.target.value);
+              if (profile) onChange(profile.values);
+            }}
+            className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {!activeProfile && <option value="">Custom (unsaved)</option>}
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSaveProfile}
+            title="Save as profile"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+          >
+            <Save size={16} />
+          </button>
+          {activeProfile && !activeProfile.builtIn && (
+            <button
+              onClick={() => setCustomProfiles(deleteCustomCtrProfile(activeProfile.id))}
+              title="Delete profile"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-4 md:grid-cols-10 gap-4">
+        {POSITIONS.map(position => (
+          <div key={position} className="text-center">
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              Pos {position}
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              value={ctrValues[position] || 0}
+              onChange={(e) => {
+                const newValue = parseFloat(e.target.value) || 0;
+                onChange({ ...ctrValues, [position]: newValue });
+              }}
+              className="w-full px-1 py-1 text-xs border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+            <div className="text-xs text-gray-500 mt-1">
+              {Math.min(100, (ctrValues[position] || 0) * (1 + upliftCtr / 100)).toFixed(1)}%
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default CtrEditor;
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Check, LineChart as LineChartIcon, Upload } from 'lucide-react';
+import { CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis } from 'recharts';
+import type { CtrTable, SegmentationConfig } from '../types';
+import { DEFAULT_CTR_VALUES } from '../lib/forecast';
+import { fitCtrCurves, gscRowsFromSource, InvalidGscFileError } from '../lib/ctrFit';
+import type { CtrFitResult } from '../lib/ctrFit';
+import { readFileSources, UnsupportedFileError } from '../lib/fileParsing';
+import { SEGMENTS } from '../lib/segments';
+
+interface CtrFitPanelProps {
+  segmentation: SegmentationConfig;
+  onApply: (ctrValues: CtrTable, segmentCtr: SegmentationConfig['segmentCtr']) => void;
+}
+
+const PREVIEW_POSITIONS = 30;
+
+function CtrFitPanel({ segmentation, onApply }: CtrFitPanelProps) {
+  const [fit, setFit] = useState<CtrFitResult | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [applySegments, setApplySegments] = useState<boolean>(true);
+
+  const handleFile = (file: File) => {
+    readFileSources(file)
+      .then(sources => {
+        const source = sources.find(s => s.included);
+        if (!source || source.rows.length === 0) {
+          alert('Aucune donnée trouvée dans les fichiers.');
+          return;
+        }
+        const rows = gscRowsFromSource(source.rows, source.columns);
+        if (rows.length === 0) {
+          alert('The export has no query with impressions.');
+          return;
+        }
+        setFit(fitCtrCurves(rows, segmentation));
+        setFileName(file.name);
+      })
+      .catch(err => {
+        console.error('File parsing error:', err);
+        alert(err instanceof UnsupportedFileError
+          ? 'Type de fichier non supporté. Uploade un CSV ou XLSX.'
+          : err instanceof InvalidGscFileError
+          ? err.message
+          : 'Erreur lors du parsing du fichier.');
+      });
+  };
+
+  const fittedSegments = fit ? SEGMENTS.filter(s => fit.segments[s.id]) : [];
+  const observed = new Map(fit?.points.map(p => [p.position, p]) ?? []);
+  const data = Array.from({ length: PREVIEW_POSITIONS }, (_, i) => {
+    const position = i + 1;
+    return {
+      position,
+      default: position <= 20 ? DEFAULT_CTR_VALUES[position] : 0.1,
+      fitted: fit?.ctr[position],
+      observed: observed.get(position)?.ctr
+    };
+  });
+
+  const handleApply = () => {
+    if (!fit) return;
+    const segmentCtr = applySegments
+      ? Object.fromEntries(fittedSegments.map(s => [s.id, fit.segments[s.id]!.ctr]))
+      : {};
+    onApply(fit.ctr, segmentCtr);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <LineChartIcon className="mr-2" size={24} />
+          Fit CTR from Search Console
+        </h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleFile(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+            id="gsc-file-input"
+          />
+          <label
+            htmlFor="gsc-file-input"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer transition-colors"
+          >
+            <Upload className="mr-2" size={16} />
+            Upload GSC export
+          </label>
+          {fit && (
+            <button
+              onClick={handleApply}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+            >
+              <Check className="mr-2" size={16} />
+              Apply as active CTR
+            </button>
+          )}
+        </div>
+      </div>
+
+      {fit ? (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {fileName}: {fit.queries.toLocaleString()} queries, {fit.impressions.toLocaleString()} impressions,{' '}
+            {fit.clicks.toLocaleString()} clicks. Positions with few impressions lean on the fitted trend, and the curve
+            never rises with position. It covers positions 1 to 100.
+          </p>
+          <div className="h-72 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="position" />
+                <YAxis />
+                <Tooltip formatter={(value) => `${Number(value).toFixed(2)}%`} />
+                <Legend />
+                <Line type="monotone" dataKey="default" name="Default CTR" stroke="#6B7280" dot={false} />
+                <Line type="monotone" dataKey="fitted" name="Fitted CTR" stroke="#2563EB" dot={false} />
+                <Scatter dataKey="observed" name="Observed CTR" fill="#F59E0B" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          {fittedSegments.length > 0 ? (
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={applySegments}
+                onChange={(e) => setApplySegments(e.target.checked)}
+                className="mr-2"
+              />
+              Also apply the curves fitted for {fittedSegments.map(s => s.label.toLowerCase()).join(', ')} queries
+            </label>
+          ) : (
+            <p className="text-sm text-gray-500">
+              No segment has enough impressions for its own curve, so every segment will use the fitted curve.
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Upload a Search Console performance export by query (query, clicks, impressions, position) to fit a CTR curve
+          for this site.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CtrFitPanel;
@@ -0,0 +1,104 @@
+import type { ReactElement } from 'react';
+import { BarChart3 } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { ModelConfig } from '../types';
+import { ctrCurve } from '../lib/forecast';
+import type { ForecastSummary } from '../lib/forecast';
+
+interface DashboardProps {
+  summary: ForecastSummary;
+  config: ModelConfig;
+}
+
+function ChartCard({ title, children }: { title: string; children: ReactElement }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-4">{title}</h3>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          {children}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function Dashboard({ summary, config }: DashboardProps) {
+  const curve = ctrCurve(config);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+        <BarChart3 className="mr-2" size={24} />
+        Dashboard
+      </h2>
+      <div className="grid lg:grid-cols-2 gap-6">
+        <ChartCard title="Current vs Expected Traffic">
+          <BarChart data={summary.chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip formatter={(value) => Number(value).toLocaleString()} />
+            <Bar dataKey="traffic" name="Monthly visits">
+              {summary.chartData.map(entry => (
+                <Cell key={entry.name} fill={entry.fill} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartCard>
+
+        <ChartCard title="Position Distribution">
+          <PieChart>
+            <Pie data={summary.positionChartData} dataKey="value" nameKey="name" outerRadius={100} label>
+              {summary.positionChartData.map(entry => (
+                <Cell key={entry.name} fill={entry.fill} />
+              ))}
+            </Pie>
+            <Tooltip />
+            <Legend />
+          </PieChart>
+        </ChartCard>
+
+        <ChartCard title="Top 10 Opportunities">
+          <BarChart data={summary.topOpportunities} layout="vertical" margin={{ left: 40 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" />
+            <YAxis type="category" dataKey="keyword" width={140} tick={{ fontSize: 11 }} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="current" name="Current" stackId="traffic" fill="#3B82F6" />
+            <Bar dataKey="gain" name="Expected gain" stackId="traffic" fill="#10B981" />
+          </BarChart>
+        </ChartCard>
+
+        <ChartCard title="CTR Curve (%)">
+          <LineChart data={curve}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="position" />
+            <YAxis />
+            <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+            <Legend />
+            <Line type="monotone" dataKey="base" name="Base CTR" stroke="#6B7280" dot={false} />
+            <Line type="monotone" dataKey="uplifted" name="Uplifted CTR" stroke="#8B5CF6" dot={false} />
+          </LineChart>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
+
+export default Dashboard;
@@ -0,0 +1,42 @@
+import { X } from 'lucide-react';
+import type { ImportProgress } from '../lib/backgroundImport';
+
+interface ImportProgressBarProps {
+  progress: ImportProgress;
+  onCancel: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+function ImportProgressBar({ progress, onCancel }: ImportProgressBarProps) {
+  const percent = progress.total > 0 ? Math.min(100, (progress.loaded / progress.total) * 100) : 0;
+  const isMapping = progress.stage === 'mapping';
+
+  return (
+    <div className="mt-6">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm text-gray-700">
+          {isMapping
+            ? 'Mapping and deduplicating rows…'
+            : `Reading files… ${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`}
+        </p>
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <X className="mr-1" size={16} />
+          Cancel
+        </button>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-blue-600 transition-all ${isMapping ? 'animate-pulse' : ''}`}
+          style={{ width: `${isMapping ? 100 : percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default ImportProgressBar;
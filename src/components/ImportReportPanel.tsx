@@ -0,0 +1,61 @@
+import { AlertTriangle, CheckCircle, FileDown } from 'lucide-react';
+import { DROP_REASON_LABELS, rejectedRowsCsv } from '../lib/importer';
+import type { DropReason, ImportReport } from '../lib/importer';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+}
+
+const downloadRejectedRows = (report: ImportReport) => {
+  const blob = new Blob([rejectedRowsCsv(report)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'rejected-rows.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function ImportReportPanel({ report }: ImportReportPanelProps) {
+  const reasons = (Object.keys(report.counts) as DropReason[]).filter(reason => report.counts[reason] > 0);
+
+  return (
+    <div className="mt-4 space-y-3">
+      <p className="text-green-600 font-medium flex items-center">
+        <CheckCircle className="mr-2" size={18} />
+        Loaded {report.imported.toLocaleString()} of {report.totalRows.toLocaleString()} rows
+      </p>
+      {report.rejected.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-md p-4">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+            <p className="text-amber-800 font-medium flex items-center">
+              <AlertTriangle className="mr-2" size={18} />
+              {report.rejected.length.toLocaleString()} rows were dropped
+            </p>
+            <button
+              onClick={() => downloadRejectedRows(report)}
+              className="inline-flex items-center px-3 py-1 border border-amber-300 rounded-md text-sm font-medium text-amber-800 bg-white hover:bg-amber-100 transition-colors"
+            >
+              <FileDown className="mr-2" size={16} />
+              Download dropped rows
+            </button>
+          </div>
+          <ul className="text-sm text-amber-700 space-y-1">
+            {reasons.map(reason => (
+              <li key={reason}>
+                {DROP_REASON_LABELS[reason]}: {report.counts[reason].toLocaleString()}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Decimal separator — position: "{report.decimalSeparators.position}", volume: "{report.decimalSeparators.volume}"
+        {report.decimalSeparators.currentTraffic && `, traffic: "${report.decimalSeparators.currentTraffic}"`}
+        {report.decimalSeparators.cpc && `, CPC: "${report.decimalSeparators.cpc}"`}
+      </p>
+    </div>
+  );
+}
+
+export default ImportReportPanel;
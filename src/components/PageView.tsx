@@ -0,0 +1,121 @@
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, FileText } from 'lucide-react';
+import type { ProcessedKeyword } from '../types';
+import { groupByPage } from '../lib/pages';
+import type { PageGrouping } from '../lib/pages';
+
+interface PageViewProps {
+  processedKeywords: ProcessedKeyword[];
+}
+
+const MAX_GROUPS = 200;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString()}`;
+
+function PageView({ processedKeywords }: PageViewProps) {
+  const [grouping, setGrouping] = useState<PageGrouping>('url');
+  const [depth, setDepth] = useState<number>(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const groups = useMemo(
+    () => groupByPage(processedKeywords, grouping, depth),
+    [processedKeywords, grouping, depth]
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <FileText className="mr-2" size={24} />
+          Pages
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={grouping}
+            onChange={(e) => {
+              setGrouping(e.target.value as PageGrouping);
+              setExpanded(null);
+            }}
+            className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="url">By URL</option>
+            <option value="directory">By subfolder</option>
+          </select>
+          {grouping === 'directory' && (
+            <select
+              value={depth}
+              onChange={(e) => {
+                setDepth(parseInt(e.target.value));
+                setExpanded(null);
+              }}
+              className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {[1, 2, 3].map(d => (
+                <option key={d} value={d}>Depth {d}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-[600px] border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {[grouping === 'url' ? 'Page' : 'Subfolder', 'Keywords', 'Current Traffic', 'Expected Traffic', 'Expected Gain', 'Top Opportunities'].map(label => (
+                <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {groups.slice(0, MAX_GROUPS).map(group => (
+              <Fragment key={group.key}>
+                <tr
+                  onClick={() => setExpanded(expanded === group.key ? null : group.key)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900 max-w-md truncate">
+                    <span className="inline-flex items-center">
+                      {expanded === group.key ? <ChevronDown className="mr-1 shrink-0" size={14} /> : <ChevronRight className="mr-1 shrink-0" size={14} />}
+                      <span className="truncate" title={group.key}>{group.key}</span>
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{group.keywords.length.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{Math.round(group.currentTraffic).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-purple-600">{Math.round(group.expectedTraffic).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <span className={`font-medium ${group.expectedGain > 0 ? 'text-green-600' : 'text-red-600'}`}>{signed(group.expectedGain)}</span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500 max-w-xs truncate">
+                    {group.topKeywords.map(k => k.keyword).join(', ')}
+                  </td>
+                </tr>
+                {expanded === group.key && group.keywords.map((k, index) => (
+                  <tr key={index} className="bg-gray-50 text-xs">
+                    <td className="pl-10 pr-4 py-1 text-gray-700">{k.keyword}</td>
+                    <td className="px-4 py-1 text-gray-500">Pos {k.position}</td>
+                    <td className="px-4 py-1 text-gray-700">{Math.round(k.estimatedCurrentTraffic)}</td>
+                    <td className="px-4 py-1 text-purple-600">{Math.round(k.expectedTraffic)}</td>
+                    <td className="px-4 py-1">
+                      <span className={k.expectedGain > 0 ? 'text-green-600' : 'text-red-600'}>{signed(k.expectedGain)}</span>
+                    </td>
+                    <td className="px-4 py-1 text-gray-500">{k.searchVolume.toLocaleString()} searches</td>
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {groups.length > MAX_GROUPS && (
+        <p className="text-xs text-gray-500 mt-2">
+          Showing the {MAX_GROUPS} pages with the largest expected gain of {groups.length.toLocaleString()}. The export contains every page.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PageView;
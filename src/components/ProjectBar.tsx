@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { FileJson, FolderOpen, Save, Trash2, Upload } from 'lucide-react';
+import {
+  createProjectId,
+  deleteProject,
+  InvalidProjectFileError,
+  listProjects,
+  loadProject,
+  parseProjectJson,
+  restoreProject,
+  saveProject,
+  serializeProject
+} from '../lib/projects';
+import type { Project, ProjectMeta, ProjectSettings } from '../lib/projects';
+import { downloadFile, slugify } from '../lib/download';
+import type { KeywordData } from '../types';
+
+interface ProjectBarProps {
+  keywords: KeywordData[];
+  settings: ProjectSettings;
+  defaultSettings: ProjectSettings;
+  onOpen: (project: Project) => void;
+  // Name of the open project, e.g. for export file names
+  onCurrentChange: (name: string | null) => void;
+}
+
+function ProjectBar({ keywords, settings, defaultSettings, onOpen, onCurrentChange }: ProjectBarProps) {
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [current, setCurrent] = useState<{ id: string; name: string } | null>(null);
+  const [selectedId, setSelectedId] = useState<string>('');
+
+  const refresh = () =>
+    listProjects()
+      .then(setProjects)
+      .catch(err => console.error('Could not list projects:', err));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    onCurrentChange(current?.name ?? null);
+  }, [current, onCurrentChange]);
+
+  const snapshot = (id: string, name: string): Project => ({
+    id,
+    name,
+    updatedAt: new Date().toISOString(),
+    keywordCount: keywords.length,
+    settings,
+    keywords
+  });
+
+  const handleSave = (saveAs: boolean) => {
+    const name = saveAs || !current ? prompt('Project name', current?.name ?? '')?.trim() : current.name;
+    if (!name) return;
+    const id = saveAs || !current ? createProjectId() : current.id;
+    saveProject(snapshot(id, name))
+      .then(() => {
+        setCurrent({ id, name });
+        setSelectedId(id);
+        return refresh();
+      })
+      .catch(err => {
+        console.error('Could not save project:', err);
+        alert('Could not save the project in this browser.');
+      });
+  };
+
+  const handleOpen = () => {
+    if (!selectedId) return;
+    loadProject(selectedId)
+      .then(project => {
+        if (!project) return;
+        const restored = restoreProject(project, defaultSettings);
+        setCurrent({ id: restored.id, name: restored.name });
+        onOpen(restored);
+      })
+      .catch(err => {
+        console.error('Could not load project:', err);
+        if (err instanceof InvalidProjectFileError) alert(err.message);
+      });
+  };
+
+  const handleDelete = () => {
+    const project = projects.find(p => p.id === selectedId);
+    if (!project || !confirm(`Delete project "${project.name}"?`)) return;
+    deleteProject(project.id)
+      .then(() => {
+        if (current?.id === project.id) setCurrent(null);
+        setSelectedId('');
+        return refresh();
+      })
+      .catch(err => console.error('Could not delete project:', err));
+  };
+
+  const handleImport = (file: File) => {
+    file.text()
+      .then(text => {
+        const project = parseProjectJson(text, defaultSettings);
+        setCurrent(null);
+        onOpen(project);
+      })
+      .catch(err => {
+        console.error('Project import error:', err);
+        alert(err instanceof InvalidProjectFileError ? err.message : 'Could not read the project file.');
+      });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 flex flex-wrap items-center gap-3">
+      <span className="text-sm font-medium text-gray-700">
+        Project: <span className="text-gray-900">{current?.name ?? 'Unsaved'}</span>
+      </span>
+      <button
+        onClick={() => handleSave(false)}
+        disabled={keywords.length === 0}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors"
+      >
+        <Save className="mr-2" size={16} />
+        Save
+      </button>
+      {current && (
+        <button
+          onClick={() => handleSave(true)}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+        >
+          Save As…
+        </button>
+      )}
+      <div className="flex items-center gap-2 ml-auto">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Saved projects…</option>
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>
+              {project.name} ({project.keywordCount.toLocaleString()} keywords)
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleOpen}
+          disabled={!selectedId}
+          title="Open project"
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <FolderOpen size={16} />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedId}
+          title="Delete project"
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <Trash2 size={16} />
+        </button>
+        <button
+          onClick={() => {
+            const name = current?.name ?? 'project';
+            downloadFile(
+              serializeProject(snapshot(current?.id ?? createProjectId(), name)),
+              `${slugify(name) || 'project'}.json`,
+              'application/json'
+            );
+          }}
+          disabled={keywords.length === 0}
+          title="Export project as JSON"
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <FileJson className="mr-2" size={16} />
+          Export
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            if (e.target.files?.[0]) handleImport(e.target.files[0]);
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="project-file-input"
+        />
+        <label
+          htmlFor="project-file-input"
+          title="Import project JSON"
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer transition-colors"
+        >
+          <Upload className="mr-2" size={16} />
+          Import
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export default ProjectBar;
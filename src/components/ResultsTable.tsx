@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns, Search } from 'lucide-react';
+import type { ProcessedKeyword, RankingOutcome } from '../types';
+import { outcomeSortKey } from '../lib/tableView';
+import type { SortKey, TableView } from '../lib/tableView';
+
+interface ResultsTableProps {
+  rows: ProcessedKeyword[];
+  outcomes: RankingOutcome[];
+  filteredCount: number;
+  totalCount: number;
+  view: TableView;
+  onViewChange: (view: TableView) => void;
+}
+
+interface Column {
+  key: SortKey;
+  label: string;
+  render: (k: ProcessedKeyword) => ReactNode;
+  className: string;
+}
+
+const ROW_HEIGHT = 41;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+
+const renderGain = (gain: number) => (
+  <span className={`font-medium ${gain > 0 ? 'text-green-600' : 'text-red-600'}`}>
+    {gain > 0 ? '+' : ''}{Math.round(gain)}
+  </span>
+);
+
+const COLUMNS: Column[] = [
+  { key: 'keyword', label: 'Keyword', render: k => k.keyword, className: 'font-medium text-gray-900' },
+  { key: 'url', label: 'URL', render: k => k.url, className: 'text-gray-500 max-w-xs truncate' },
+  { key: 'cluster', label: 'Topic', render: k => k.cluster, className: 'text-gray-500' },
+  { key: 'segment', label: 'Segment', render: k => k.segment, className: 'text-gray-500 capitalize' },
+  { key: 'source', label: 'Source', render: k => k.source, className: 'text-gray-500' },
+  { key: 'position', label: 'Position', render: k => k.position, className: 'text-gray-500' },
+  { key: 'searchVolume', label: 'Search Volume', render: k => k.searchVolume.toLocaleString(), className: 'text-gray-500' },
+  { key: 'estimatedCurrentTraffic', label: 'Current Traffic', render: k => Math.round(k.estimatedCurrentTraffic), className: 'text-gray-900' }
+];
+
+const FORECAST_COLUMNS: Column[] = [
+  { key: 'expectedTraffic', label: 'Expected Traffic', render: k => Math.round(k.expectedTraffic), className: 'text-purple-600' },
+  { key: 'expectedGain', label: 'Expected Gain', render: k => renderGain(k.expectedGain), className: '' },
+  { key: 'trafficAtRisk', label: 'Traffic at Risk', render: k => (k.trafficAtRisk > 0 ? -Math.round(k.trafficAtRisk) : 0), className: 'text-red-600' },
+  { key: 'expectedConversions', label: 'Expected Conversions', render: k => k.expectedConversions.toFixed(1), className: 'text-gray-900' },
+  { key: 'expectedRevenue', label: 'Expected Revenue', render: k => Math.round(k.expectedRevenue).toLocaleString(), className: 'text-gray-900' },
+  { key: 'revenueGain', label: 'Revenue Gain', render: k => renderGain(k.revenueGain), className: '' },
+  { key: 'cpc', label: 'CPC', render: k => k.cpc?.toFixed(2), className: 'text-gray-500' },
+  { key: 'expectedPaidValue', label: 'Paid Search Value', render: k => Math.round(k.expectedPaidValue).toLocaleString(), className: 'text-gray-500' },
+  { key: 'difficulty', label: 'Difficulty', render: k => k.difficulty, className: 'text-gray-500' },
+  { key: 'effortEstimate', label: 'Effort', render: k => k.effortEstimate, className: 'text-gray-500' }
+];
+
+// Traffic and gain for each configured ranking outcome
+const outcomeColumns = (outcomes: RankingOutcome[]): Column[] =>
+  outcomes.flatMap(outcome => {
+    const forecast = (k: ProcessedKeyword) => k.outcomes.find(o => o.id === outcome.id);
+    return [
+      { key: outcomeSortKey('traffic', outcome.id), label: `Traffic (${outcome.label})`, render: k => Math.round(forecast(k)?.traffic ?? 0), className: 'text-blue-600' },
+      { key: outcomeSortKey('gain', outcome.id), label: `Gain (${outcome.label})`, render: k => renderGain(forecast(k)?.gain ?? 0), className: '' }
+    ];
+  });
+
+// Text columns sort A→Z first, metrics largest first
+const TEXT_COLUMNS: SortKey[] = ['keyword', 'cluster', 'segment', 'url', 'source'];
+
+function ResultsTable({ rows, outcomes, filteredCount, totalCount, view, onViewChange }: ResultsTableProps) {
+  const [hiddenColumns, setHiddenColumns] = useState<Set<SortKey>>(new Set());
+  const [showColumnPicker, setShowColumnPicker] = useState<boolean>(false);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  const allColumns = [...COLUMNS, ...outcomeColumns(outcomes), ...FORECAST_COLUMNS];
+  const columns = allColumns.filter(c => !hiddenColumns.has(c.key));
+
+  // Only the rows inside the scroll viewport (plus a margin) are rendered
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(start, end);
+
+  const toggleSort = (key: SortKey) => {
+    if (view.sortKey !== key) {
+      onViewChange({ ...view, sortKey: key, sortDirection: TEXT_COLUMNS.includes(key) ? 'asc' : 'desc' });
+    } else if (view.sortDirection === 'desc') {
+      onViewChange({ ...view, sortDirection: 'asc' });
+    } else {
+      onViewChange({ ...view, sortKey: null, sortDirection: 'desc' });
+    }
+  };
+
+  const toggleColumn = (key: SortKey) => {
+    setHiddenColumns(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div className="text-sm text-gray-600">
+          Showing {rows.length} keywords
+          {rows.length !== filteredCount && ` matching search (${filteredCount} after filters)`}
+          {' '}(filtered from {totalCount} total)
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+            <input
+              type="search"
+              placeholder="Search keyword or URL"
+              value={view.search}
+              onChange={(e) => onViewChange({ ...view, search: e.target.value })}
+              className="pl-8 pr-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnPicker(!showColumnPicker)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+            >
+              <Columns className="mr-2" size={16} />
+              Columns
+            </button>
+            {showColumnPicker && (
+              <div className="absolute right-0 z-20 mt-2 w-56 bg-white border border-gray-200 rounded-md shadow-lg p-3 space-y-1">
+                {allColumns.map(column => (
+                  <label key={column.key} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!hiddenColumns.has(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="mr-2"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div
+        className="overflow-auto border border-gray-200 rounded-md"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  onClick={() => toggleSort(column.key)}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700"
+                >
+                  <span className="inline-flex items-center">
+                    {column.label}
+                    {view.sortKey === column.key ? (
+                      view.sortDirection === 'asc' ? <ArrowUp className="ml-1" size={12} /> : <ArrowDown className="ml-1" size={12} />
+                    ) : (
+                      <ArrowUpDown className="ml-1 text-gray-300" size={12} />
+                    )}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {visibleRows.map((keyword, index) => (
+              <tr key={start + index} className="hover:bg-gray-50" style={{ height: ROW_HEIGHT }}>
+                {columns.map(column => (
+                  <td key={column.key} className={`px-6 py-2 whitespace-nowrap text-sm ${column.className}`}>
+                    {column.render(keyword)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default ResultsTable;
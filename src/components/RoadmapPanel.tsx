@@ -0,0 +1,184 @@
+import { CheckCircle, ListOrdered, RotateCcw } from 'lucide-react';
+import type { EffortModel } from '../types';
+import type { Roadmap, RoadmapGrouping, RoadmapObjective, RoadmapOptions } from '../lib/prioritization';
+import { formatMoney } from '../lib/businessValue';
+
+interface RoadmapPanelProps {
+  roadmap: Roadmap;
+  options: RoadmapOptions;
+  effortModel: EffortModel;
+  currency: string;
+  onOptionsChange: (options: RoadmapOptions) => void;
+  onEffortModelChange: (model: EffortModel) => void;
+}
+
+const MAX_ROWS = 200;
+
+const MODEL_FIELDS: { key: 'base' | 'perDifficulty' | 'perPosition' | 'defaultDifficulty'; label: string; step: string }[] = [
+  { key: 'base', label: 'Base per keyword', step: '0.5' },
+  { key: 'perDifficulty', label: 'Per difficulty point', step: '0.01' },
+  { key: 'perPosition', label: 'Per position to top 3', step: '0.1' },
+  { key: 'defaultDifficulty', label: 'Difficulty when unknown', step: '1' }
+];
+
+function RoadmapPanel({ roadmap, options, effortModel, currency, onOptionsChange, onEffortModelChange }: RoadmapPanelProps) {
+  const setOverride = (key: string, effort: number | undefined) => {
+    const overrides = { ...effortModel.overrides };
+    if (effort === undefined) delete overrides[key];
+    else overrides[key] = effort;
+    onEffortModelChange({ ...effortModel, overrides });
+  };
+
+  const byRevenue = options.objective === 'revenue';
+  const selected = roadmap.items.filter(item => item.selected);
+  let cumulativeEffort = 0;
+  let cumulativeGain = 0;
+  const rows = roadmap.items.slice(0, MAX_ROWS).map(item => {
+    if (item.selected) {
+      cumulativeEffort += item.effort;
+      cumulativeGain += byRevenue ? item.revenueGain : item.expectedGain;
+    }
+    return { item, cumulativeEffort, cumulativeGain };
+  });
+  const formatGain = (gain: number) => (byRevenue ? formatMoney(gain, currency) : Math.round(gain).toLocaleString());
+  const gainShare = byRevenue
+    ? roadmap.selectedRevenueGain / (roadmap.possibleRevenueGain || 1)
+    : roadmap.selectedGain / (roadmap.possibleGain || 1);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+        <ListOrdered className="mr-2" size={24} />
+        Effort & Roadmap
+      </h2>
+
+      <div className="grid md:grid-cols-5 gap-4 mb-6">
+        {MODEL_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+            <input
+              type="number"
+              min="0"
+              step={field.step}
+              value={effortModel[field.key]}
+              onChange={(e) => onEffortModelChange({ ...effortModel, [field.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Unit</label>
+          <select
+            value={effortModel.unit}
+            onChange={(e) => onEffortModelChange({ ...effortModel, unit: e.target.value as EffortModel['unit'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="hours">Content hours</option>
+            <option value="points">Effort points</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Budget ({effortModel.unit})</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={options.budget}
+            onChange={(e) => onOptionsChange({ ...options, budget: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Plan by</label>
+          <select
+            value={options.grouping}
+            onChange={(e) => onOptionsChange({ ...options, grouping: e.target.value as RoadmapGrouping })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="keyword">Keyword</option>
+            <option value="url">Page</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Maximise</label>
+          <select
+            value={options.objective}
+            onChange={(e) => onOptionsChange({ ...options, objective: e.target.value as RoadmapObjective })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="traffic">Expected traffic gain</option>
+            <option value="revenue">Revenue gain</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        {selected.length.toLocaleString()} items use {Math.round(roadmap.usedBudget * 10) / 10} of {options.budget} {effortModel.unit} for{' '}
+        <span className="font-semibold text-green-600">
+          +{formatGain(byRevenue ? roadmap.selectedRevenueGain : roadmap.selectedGain)}
+        </span>
+        , {Math.round(gainShare * 100)}% of the gain available.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['#', options.grouping === 'url' ? 'Page' : 'Keyword', 'Keywords', `Effort (${effortModel.unit})`, 'Gain', 'Cumulative Effort', 'Cumulative Gain'].map(label => (
+                <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map(({ item, cumulativeEffort, cumulativeGain }, index) => (
+              <tr key={item.key} className={item.selected ? '' : 'text-gray-400'}>
+                <td className="px-4 py-2 text-sm">
+                  {item.selected ? (
+                    <span className="inline-flex items-center text-green-600">
+                      <CheckCircle className="mr-1" size={14} />
+                      {index + 1}
+                    </span>
+                  ) : '—'}
+                </td>
+                <td className={`px-4 py-2 text-sm max-w-xs truncate ${item.selected ? 'font-medium text-gray-900' : ''}`}>{item.label}</td>
+                <td className="px-4 py-2 text-sm">{item.keywords.length}</td>
+                <td className="px-4 py-2 text-sm">
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={item.effort}
+                      onChange={(e) => setOverride(item.key, Math.max(0, parseFloat(e.target.value) || 0))}
+                      className={`w-20 px-2 py-1 text-sm border rounded focus:ring-blue-500 focus:border-blue-500 ${
+                        item.overridden ? 'border-blue-400' : 'border-gray-300'
+                      }`}
+                    />
+                    {effortModel.overrides[item.key] !== undefined && (
+                      <button onClick={() => setOverride(item.key, undefined)} className="text-gray-400 hover:text-gray-700" title="Use the estimate">
+                        <RotateCcw size={14} />
+                      </button>
+                    )}
+                  </div>
+                </td>
+                <td className="px-4 py-2 text-sm">+{formatGain(byRevenue ? item.revenueGain : item.expectedGain)}</td>
+                <td className="px-4 py-2 text-sm">{item.selected ? Math.round(cumulativeEffort * 10) / 10 : ''}</td>
+                <td className="px-4 py-2 text-sm">{item.selected ? `+${formatGain(cumulativeGain)}` : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {roadmap.items.length > MAX_ROWS && (
+        <p className="text-sm text-gray-500 mt-2">
+          Showing the first {MAX_ROWS} of {roadmap.items.length.toLocaleString()} items. The export contains every row.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default RoadmapPanel;
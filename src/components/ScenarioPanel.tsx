@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Layers, Play, Plus, Trash2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CURRENT_SCENARIO_ID, scenarioDeltas } from '../lib/scenarios';
+import type { Scenario, ScenarioResult } from '../lib/scenarios';
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  // Current settings first, then one result per saved scenario
+  results: ScenarioResult[];
+  onSave: () => void;
+  onApply: (scenario: Scenario) => void;
+  onDelete: (id: string) => void;
+}
+
+const MAX_ROWS = 200;
+
+function ScenarioPanel({ scenarios, results, onSave, onApply, onDelete }: ScenarioPanelProps) {
+  const [idA, setIdA] = useState<string>(CURRENT_SCENARIO_ID);
+  const [idB, setIdB] = useState<string>('');
+
+  const resultA = results.find(r => r.id === idA) ?? results[0];
+  const resultB = results.find(r => r.id === idB) ?? results[1];
+  const deltas = resultA && resultB && resultA !== resultB ? scenarioDeltas(resultA, resultB) : [];
+
+  const chartData = results.map(r => ({
+    name: r.name,
+    current: Math.round(r.summary.totalCurrentTraffic),
+    expected: Math.round(r.summary.totalExpectedTraffic)
+  }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <Layers className="mr-2" size={24} />
+          Scenarios
+        </h2>
+        <button
+          onClick={onSave}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <Plus className="mr-2" size={16} />
+          Save current settings as scenario
+        </button>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Scenario', 'Keywords', 'Current Traffic', 'Expected Traffic', 'Expected Gain', 'Traffic at Risk', ''].map(label => (
+                <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {results.map(r => {
+              const scenario = scenarios.find(s => s.id === r.id);
+              return (
+                <tr key={r.id}>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900">{r.name}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{r.keywords.length.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{Math.round(r.summary.totalCurrentTraffic).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-purple-600">{Math.round(r.summary.totalExpectedTraffic).toLocaleString()}</td>
+                  <td className={`px-4 py-2 text-sm ${r.summary.totalExpectedGain < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {r.summary.totalExpectedGain < 0 ? '' : '+'}{Math.round(r.summary.totalExpectedGain).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-red-600">-{Math.round(r.summary.totalTrafficAtRisk).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-right whitespace-nowrap">
+                    {scenario && (
+                      <>
+                        <button onClick={() => onApply(scenario)} className="text-blue-600 hover:text-blue-800 mr-3" title="Load these settings">
+                          <Play size={16} />
+                        </button>
+                        <button onClick={() => onDelete(scenario.id)} className="text-gray-400 hover:text-gray-700" title="Delete scenario">
+                          <Trash2 size={16} />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Save the current settings as a scenario, change the CTR, uplift, effort, filters or transition model, then save another to compare them.
+        </p>
+      ) : (
+        <>
+          <div className="h-72 mb-8">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip formatter={(value) => Number(value).toLocaleString()} />
+                <Legend />
+                <Bar dataKey="current" name="Current" fill="#3B82F6" />
+                <Bar dataKey="expected" name="Expected" fill="#10B981" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Keyword Changes</h3>
+            <select
+              value={resultA?.id}
+              onChange={(e) => setIdA(e.target.value)}
+              className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {results.map(r => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-500">→</span>
+            <select
+              value={resultB?.id}
+              onChange={(e) => setIdB(e.target.value)}
+              className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {results.map(r => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+          </div>
+          {deltas.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Keyword', 'URL', `Expected (${resultA.name})`, `Expected (${resultB.name})`, 'Change'].map(label => (
+                      <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {deltas.slice(0, MAX_ROWS).map((row, index) => (
+                    <tr key={index}>
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">{row.keyword}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500 max-w-xs truncate">{row.url}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{row.expectedA === undefined ? 'filtered out' : Math.round(row.expectedA)}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{row.expectedB === undefined ? 'filtered out' : Math.round(row.expectedB)}</td>
+                      <td className={`px-4 py-2 text-sm font-medium ${row.delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {row.delta >= 0 ? '+' : ''}{Math.round(row.delta)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {deltas.length > MAX_ROWS && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Showing the {MAX_ROWS} largest changes of {deltas.length.toLocaleString()}.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Pick two different scenarios to compare their keywords.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ScenarioPanel;
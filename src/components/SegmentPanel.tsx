@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { Plus, Tags, Trash2 } from 'lucide-react';
+import type { CtrTable, KeywordSegment, ProcessedKeyword, SegmentationConfig } from '../types';
+import { isValidPattern, parseBrandTerms, SEGMENTS, SUGGESTED_SEGMENT_CTR } from '../lib/segments';
+
+interface SegmentPanelProps {
+  segmentation: SegmentationConfig;
+  globalCtr: CtrTable;
+  processedKeywords: ProcessedKeyword[];
+  onChange: (segmentation: SegmentationConfig) => void;
+}
+
+const POSITIONS = Array.from({ length: 20 }, (_, i) => i + 1);
+
+function SegmentPanel({ segmentation, globalCtr, processedKeywords, onChange }: SegmentPanelProps) {
+  const [brandText, setBrandText] = useState<string>(segmentation.brandTerms.join(', '));
+  const [editedSegment, setEditedSegment] = useState<KeywordSegment>('branded');
+
+  // Follow brand terms replaced from outside, e.g. when a project is opened
+  useEffect(() => {
+    setBrandText(segmentation.brandTerms.join(', '));
+  }, [segmentation.brandTerms]);
+
+  const stats = SEGMENTS.map(segment => {
+    const members = processedKeywords.filter(k => k.segment === segment.id);
+    return {
+      ...segment,
+      keywords: members.length,
+      currentTraffic: members.reduce((sum, k) => sum + k.estimatedCurrentTraffic, 0),
+      expectedGain: members.reduce((sum, k) => sum + k.expectedGain, 0)
+    };
+  });
+
+  const segmentCurve = segmentation.segmentCtr[editedSegment];
+
+  const setSegmentCurve = (curve: CtrTable | undefined) => {
+    const segmentCtr = { ...segmentation.segmentCtr };
+    if (curve) segmentCtr[editedSegment] = curve;
+    else delete segmentCtr[editedSegment];
+    onChange({ ...segmentation, segmentCtr });
+  };
+
+  const updateRule = (index: number, patch: Partial<SegmentationConfig['rules'][number]>) =>
+    onChange({ ...segmentation, rules: segmentation.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+        <Tags className="mr-2" size={24} />
+        Search Intent & Brand Segments
+      </h2>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-8">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Brand terms</label>
+          <textarea
+            value={brandText}
+            onChange={(e) => setBrandText(e.target.value)}
+            onBlur={() => onChange({ ...segmentation, brandTerms: parseBrandTerms(brandText) })}
+            rows={3}
+            placeholder="mybrand, my brand, mybrand.com"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+          <label className="mt-3 inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={segmentation.excludeBranded}
+              onChange={(e) => onChange({ ...segmentation, excludeBranded: e.target.checked })}
+              className="mr-2"
+            />
+            Exclude branded keywords from the results and totals
+          </label>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-700">Custom rules (regex, checked first)</label>
+            <button
+              onClick={() => onChange({ ...segmentation, rules: [...segmentation.rules, { pattern: '', segment: 'transactional' }] })}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="mr-1" size={14} />
+              Add rule
+            </button>
+          </div>
+          <div className="space-y-2">
+            {segmentation.rules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                  placeholder="^(best|top) "
+                  className={`flex-1 px-2 py-1 text-sm font-mono border rounded focus:ring-blue-500 focus:border-blue-500 ${
+                    rule.pattern && !isValidPattern(rule.pattern) ? 'border-red-400' : 'border-gray-300'
+                  }`}
+                />
+                <select
+                  value={rule.segment}
+                  onChange={(e) => updateRule(index, { segment: e.target.value as KeywordSegment })}
+                  className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {SEGMENTS.map(segment => (
+                    <option key={segment.id} value={segment.id}>{segment.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange({ ...segmentation, rules: segmentation.rules.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-gray-700"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            {segmentation.rules.length === 0 && <p className="text-sm text-gray-500">No custom rules.</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-8">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Segment', 'Keywords', 'Current Traffic', 'Expected Gain', 'CTR Curve'].map(label => (
+                <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {stats.map(segment => (
+              <tr key={segment.id}>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">{segment.label}</td>
+                <td className="px-4 py-2 text-sm text-gray-500">{segment.keywords.toLocaleString()}</td>
+                <td className="px-4 py-2 text-sm text-gray-900">{Math.round(segment.currentTraffic).toLocaleString()}</td>
+                <td className="px-4 py-2 text-sm text-green-600">+{Math.round(segment.expectedGain).toLocaleString()}</td>
+                <td className="px-4 py-2 text-sm text-gray-500">{segmentation.segmentCtr[segment.id] ? 'Own curve' : 'Global curve'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Segment CTR (%)</h3>
+        <select
+          value={editedSegment}
+          onChange={(e) => setEditedSegment(e.target.value as KeywordSegment)}
+          className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {SEGMENTS.map(segment => (
+            <option key={segment.id} value={segment.id}>{segment.label}</option>
+          ))}
+        </select>
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!segmentCurve}
+            onChange={(e) => setSegmentCurve(e.target.checked ? { ...(SUGGESTED_SEGMENT_CTR[editedSegment] ?? globalCtr) } : undefined)}
+            className="mr-2"
+          />
+          Use its own curve
+        </label>
+      </div>
+      {segmentCurve ? (
+        <div className="grid grid-cols-4 md:grid-cols-10 gap-4">
+          {POSITIONS.map(position => (
+            <div key={position} className="text-center">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Pos {position}</label>
+              <input
+                type="number"
+                step="0.1"
+                value={segmentCurve[position] || 0}
+                onChange={(e) => setSegmentCurve({ ...segmentCurve, [position]: parseFloat(e.target.value) || 0 })}
+                className="w-full px-1 py-1 text-xs border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">This segment uses the global CTR table.</p>
+      )}
+    </div>
+  );
+}
+
+export default SegmentPanel;
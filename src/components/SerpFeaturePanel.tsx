@@ -0,0 +1,83 @@
+import { LayoutList } from 'lucide-react';
+import type { ProcessedKeyword, SerpFeatureMultipliers } from '../types';
+import { SERP_FEATURES, serpFeatureBreakdown } from '../lib/serpFeatures';
+
+interface SerpFeaturePanelProps {
+  multipliers: SerpFeatureMultipliers;
+  processedKeywords: ProcessedKeyword[];
+  onChange: (multipliers: SerpFeatureMultipliers) => void;
+}
+
+// Multipliers are edited as a CTR change in percent, e.g. 0.7 is shown as -30
+const toPercent = (multiplier: number) => Math.round((multiplier - 1) * 1000) / 10;
+
+function SerpFeaturePanel({ multipliers, processedKeywords, onChange }: SerpFeaturePanelProps) {
+  const breakdown = serpFeatureBreakdown(processedKeywords, multipliers);
+  const totalLoss = processedKeywords.reduce((sum, k) => sum + k.serpFeatureLoss, 0);
+  const hasFeatures = processedKeywords.some(k => k.serpFeatures?.length);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+        <LayoutList className="mr-2" size={24} />
+        SERP Features
+      </h2>
+
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">CTR change when present (%)</h3>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-8">
+        {SERP_FEATURES.map(feature => (
+          <div key={feature.id}>
+            <label className="block text-xs font-medium text-gray-600 mb-1">{feature.label}</label>
+            <input
+              type="number"
+              step="1"
+              min="-100"
+              value={toPercent(multipliers[feature.id] ?? 1)}
+              onChange={(e) =>
+                onChange({ ...multipliers, [feature.id]: Math.max(0, 1 + (parseFloat(e.target.value) || 0) / 100) })
+              }
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      {hasFeatures ? (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            SERP features take an estimated{' '}
+            <span className="font-semibold text-red-600">{Math.round(totalLoss).toLocaleString()}</span>{' '}
+            monthly visits from the expected traffic.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Feature', 'Keywords', 'CTR Change', 'Traffic Lost'].map(label => (
+                    <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {breakdown.map(impact => (
+                  <tr key={impact.feature}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{impact.label}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{impact.keywords.toLocaleString()}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{toPercent(multipliers[impact.feature] ?? 1)}%</td>
+                    <td className="px-4 py-2 text-sm text-red-600">-{Math.round(impact.lostTraffic).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Map a SERP Features column when importing to adjust the CTR of keywords whose results show ads, snippets or other features.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default SerpFeaturePanel;
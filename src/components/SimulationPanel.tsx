@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dices, Play, Square } from 'lucide-react';
+import { BarChart, Bar, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { ProcessedKeyword } from '../types';
+import { packKeywords } from '../lib/simulation';
+import type { SimulationResult } from '../lib/simulation';
+import type { SimulationMessage } from '../workers/simulation.worker';
+
+interface SimulationPanelProps {
+  processedKeywords: ProcessedKeyword[];
+}
+
+function SimulationPanel({ processedKeywords }: SimulationPanelProps) {
+  const [iterations, setIterations] = useState<string>('2000');
+  const [seed, setSeed] = useState<string>('42');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // A previous run no longer describes the current keyword set
+  useEffect(() => {
+    stop();
+    setResult(null);
+  }, [processedKeywords]);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const run = () => {
+    const iterationCount = Math.max(100, Math.min(100000, parseInt(iterations) || 2000));
+    const seedValue = parseInt(seed) || 0;
+    stop();
+    setResult(null);
+    setProgress(0);
+
+    const worker = new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<SimulationMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setProgress(message.done / iterationCount);
+        return;
+      }
+      if (message.type === 'result') {
+        setResult(message.result);
+      } else {
+        console.error('Simulation error:', message.message);
+        alert('Simulation failed: ' + message.message);
+      }
+      stop();
+    };
+
+    const outcomeCount = processedKeywords[0]?.outcomes.length ?? 0;
+    const packed = packKeywords(processedKeywords, outcomeCount);
+    worker.postMessage({ packed, options: { iterations: iterationCount, seed: seedValue, outcomeCount } }, [packed.buffer]);
+  };
+
+  const histogramData = result?.histogram.map(bin => ({
+    name: `${Math.round(bin.from).toLocaleString()} – ${Math.round(bin.to).toLocaleString()}`,
+    count: bin.count
+  })) ?? [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+          <Dices className="mr-2" size={24} />
+          Monte Carlo Simulation
+        </h2>
+        <div className="flex items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Iterations</label>
+            <input
+              type="number"
+              min="100"
+              max="100000"
+              value={iterations}
+              onChange={(e) => setIterations(e.target.value)}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Seed</label>
+            <input
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {progress === null ? (
+            <button
+              onClick={run}
+              disabled={processedKeywords.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              <Play className="mr-2" size={16} />
+              Run Simulation
+            </button>
+          ) : (
+            <button
+              onClick={stop}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+            >
+              <Square className="mr-2" size={16} />
+              Cancel ({Math.round(progress * 100)}%)
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!result && (
+        <p className="text-sm text-gray-500">
+          Samples each keyword's ranking outcome from the probabilities of staying put and of each configured outcome to put a confidence interval on the expected gain.
+        </p>
+      )}
+
+      {result && (
+        <>
+          <div className="grid md:grid-cols-3 gap-6 mb-8">
+            {([['P10', 'p10'], ['P50', 'p50'], ['P90', 'p90']] as const).map(([label, key]) => (
+              <div key={key} className="bg-indigo-50 rounded-lg p-6 border border-indigo-200">
+                <h3 className="text-lg font-semibold text-indigo-900 mb-2">{label} Gain</h3>
+                <p className="text-3xl font-bold text-indigo-700">
+                  {result.gain[key] >= 0 ? '+' : ''}{Math.round(result.gain[key]).toLocaleString()}
+                </p>
+                <p className="text-sm text-indigo-600 mt-1">
+                  {Math.round(result.traffic[key]).toLocaleString()} total monthly visits
+                </p>
+              </div>
+            ))}
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogramData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="count" name="Runs" fill="#6366F1" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Distribution of portfolio gain over {result.iterations.toLocaleString()} runs (seed {result.seed}).
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SimulationPanel;
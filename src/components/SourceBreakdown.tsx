@@ -0,0 +1,59 @@
+import type { SourceSummary } from '../lib/sources';
+
+interface SourceBreakdownProps {
+  allSources: string[];
+  summaries: SourceSummary[];
+  selected: string[];
+  onSelectedChange: (selected: string[]) => void;
+}
+
+function SourceBreakdown({ allSources, summaries, selected, onSelectedChange }: SourceBreakdownProps) {
+  const isSelected = (source: string) => selected.length === 0 || selected.includes(source);
+
+  const toggle = (source: string) => {
+    const current = selected.length === 0 ? allSources : selected;
+    const next = current.includes(source) ? current.filter(s => s !== source) : [...current, source];
+    // Selecting everything again is the same as no source filter
+    onSelectedChange(next.length === allSources.length ? [] : next);
+  };
+
+  return (
+    <div className="mb-8 overflow-x-auto">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">By Source</h3>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keywords</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current Traffic</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Traffic</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Gain</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {allSources.map(source => {
+            const summary = summaries.find(s => s.source === source);
+            return (
+              <tr key={source} className={isSelected(source) ? '' : 'opacity-50'}>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                  <label className="inline-flex items-center">
+                    <input type="checkbox" checked={isSelected(source)} onChange={() => toggle(source)} className="mr-2" />
+                    {source}
+                  </label>
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500">{summary ? summary.keywords.toLocaleString() : '–'}</td>
+                <td className="px-4 py-2 text-sm text-gray-900">{summary ? Math.round(summary.currentTraffic).toLocaleString() : '–'}</td>
+                <td className="px-4 py-2 text-sm text-purple-600">{summary ? Math.round(summary.expectedTraffic).toLocaleString() : '–'}</td>
+                <td className="px-4 py-2 text-sm text-green-600">
+                  {summary ? `+${Math.round(summary.expectedGain).toLocaleString()}` : '–'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default SourceBreakdown;
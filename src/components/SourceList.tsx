@@ -0,0 +1,79 @@
+import { Files } from 'lucide-react';
+import type { SourceTags } from '../types';
+import type { SourceInfo } from '../lib/sources';
+
+interface SourceListProps {
+  sources: SourceInfo[];
+  onChange: (sources: SourceInfo[]) => void;
+}
+
+const TAG_FIELDS: { key: keyof SourceTags; placeholder: string }[] = [
+  { key: 'domain', placeholder: 'Domain' },
+  { key: 'market', placeholder: 'Market' },
+  { key: 'date', placeholder: 'Date' }
+];
+
+function SourceList({ sources, onChange }: SourceListProps) {
+  const update = (id: string, patch: Partial<SourceInfo>) => {
+    onChange(sources.map(source => (source.id === id ? { ...source, ...patch } : source)));
+  };
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+        <Files className="mr-2" size={20} />
+        Sources
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Rows from sources with identical tags are merged and deduplicated together. Tags can be used to filter the results.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Use</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File / Sheet</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+              {TAG_FIELDS.map(field => (
+                <th key={field.key} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {field.placeholder}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sources.map(source => (
+              <tr key={source.id} className={source.included ? '' : 'opacity-50'}>
+                <td className="px-4 py-2">
+                  <input
+                    type="checkbox"
+                    checked={source.included}
+                    onChange={(e) => update(source.id, { included: e.target.checked })}
+                  />
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  {source.fileName}
+                  {source.sheetName && <span className="text-gray-500"> / {source.sheetName}</span>}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500">{source.rowCount.toLocaleString()}</td>
+                {TAG_FIELDS.map(field => (
+                  <td key={field.key} className="px-4 py-2">
+                    <input
+                      type="text"
+                      placeholder={field.placeholder}
+                      value={source.tags[field.key]}
+                      onChange={(e) => update(source.id, { tags: { ...source.tags, [field.key]: e.target.value } })}
+                      className="w-32 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default SourceList;
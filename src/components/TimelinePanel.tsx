@@ -0,0 +1,141 @@
+import { CalendarRange } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { TimelineConfig } from '../types';
+import { TIMELINE_HORIZONS, timelineStartMonth, trendsEndMonth } from '../lib/timeline';
+import type { Timeline } from '../lib/timeline';
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  config: TimelineConfig;
+  onChange: (config: TimelineConfig) => void;
+}
+
+function TimelinePanel({ timeline, config, onChange }: TimelinePanelProps) {
+  const last = timeline.months[timeline.months.length - 1];
+  const cumulativeGain = timeline.months.reduce((sum, m) => sum + m.gain, 0);
+  const data = timeline.months.map(m => ({
+    month: m.month,
+    baseline: Math.round(m.baseline),
+    projected: Math.round(m.projected)
+  }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+        <CalendarRange className="mr-2" size={24} />
+        Forecast Timeline
+      </h2>
+
+      <div className="grid md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Horizon</label>
+          <select
+            value={config.horizon}
+            onChange={(e) => onChange({ ...config, horizon: parseInt(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {TIMELINE_HORIZONS.map(months => (
+              <option key={months} value={months}>{months} months</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Start Month</label>
+          <input
+            type="month"
+            value={timelineStartMonth(config)}
+            onChange={(e) => e.target.value && onChange({ ...config, startMonth: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2" title="Month of the last value of the Trends column">
+            Trends End
+          </label>
+          <input
+            type="month"
+            value={trendsEndMonth(config)}
+            onChange={(e) => e.target.value && onChange({ ...config, trendsEndMonth: e.target.value })}
+            disabled={!config.seasonality}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Delay (months)</label>
+          <input
+            type="number"
+            min="0"
+            max="12"
+            value={config.delayMonths}
+            onChange={(e) => onChange({ ...config, delayMonths: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Ramp-up (months)</label>
+          <input
+            type="number"
+            min="0"
+            max="24"
+            value={config.rampMonths}
+            onChange={(e) => onChange({ ...config, rampMonths: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Ramp Shape</label>
+          <select
+            value={config.curve}
+            onChange={(e) => onChange({ ...config, curve: e.target.value as TimelineConfig['curve'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="sCurve">S-curve</option>
+            <option value="linear">Linear</option>
+          </select>
+        </div>
+        <div className="flex items-end pb-2">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.seasonality}
+              onChange={(e) => onChange({ ...config, seasonality: e.target.checked })}
+              className="mr-2"
+            />
+            Seasonality
+          </label>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        {last && (
+          <>
+            By {last.month}, traffic reaches{' '}
+            <span className="font-semibold text-green-600">{Math.round(last.projected).toLocaleString()}</span> monthly visits
+            ({last.gain >= 0 ? '+' : ''}{Math.round(last.gain).toLocaleString()} over the baseline), for{' '}
+            {Math.round(cumulativeGain).toLocaleString()} extra visits over the period.{' '}
+          </>
+        )}
+        {config.seasonality &&
+          (timeline.seasonalKeywords > 0
+            ? `Seasonality applied to ${timeline.seasonalKeywords.toLocaleString()} keywords with a Trends column.`
+            : 'Map a Trends column when importing to apply seasonality.')}
+      </p>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" />
+            <YAxis />
+            <Tooltip formatter={(value) => Number(value).toLocaleString()} />
+            <Legend />
+            <Line type="monotone" dataKey="baseline" name="Current rankings" stroke="#3B82F6" dot={false} />
+            <Line type="monotone" dataKey="projected" name="Projected" stroke="#10B981" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default TimelinePanel;
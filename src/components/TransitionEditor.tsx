@@ -0,0 +1,167 @@
+import { Plus, Shuffle, Trash2 } from 'lucide-react';
+import type { RankingOutcome, TransitionModel } from '../types';
+import { MAX_TARGET_POSITION } from '../lib/transitions';
+
+interface TransitionEditorProps {
+  outcomes: RankingOutcome[];
+  transitions: TransitionModel;
+  onOutcomesChange: (outcomes: RankingOutcome[]) => void;
+  onChange: (transitions: TransitionModel) => void;
+}
+
+// Common outcomes offered when adding one; every field stays editable afterwards
+const OUTCOME_PRESETS: Omit<RankingOutcome, 'id'>[] = [
+  { label: 'Page 1', kind: 'position', value: 10 },
+  { label: 'Top 5', kind: 'position', value: 5 },
+  { label: 'Gain 5 positions', kind: 'shift', value: -5 },
+  { label: 'Drop 3 positions', kind: 'shift', value: 3 },
+  { label: 'Drop 10 positions', kind: 'shift', value: 10 }
+];
+
+const clampValue = (kind: RankingOutcome['kind'], value: number) =>
+  kind === 'position'
+    ? Math.min(MAX_TARGET_POSITION, Math.max(1, Math.round(value)))
+    : Math.min(MAX_TARGET_POSITION - 1, Math.max(1 - MAX_TARGET_POSITION, Math.round(value)));
+
+function TransitionEditor({ outcomes, transitions, onOutcomesChange, onChange }: TransitionEditorProps) {
+  const updateStay = (index: number, percent: number) => {
+    onChange(transitions.map((bucket, i) => (i === index ? { ...bucket, stay: percent / 100 } : bucket)));
+  };
+
+  const updateWeight = (index: number, outcomeId: string, percent: number) => {
+    onChange(transitions.map((bucket, i) =>
+      i === index ? { ...bucket, weights: { ...bucket.weights, [outcomeId]: percent / 100 } } : bucket
+    ));
+  };
+
+  const updateOutcome = (id: string, patch: Partial<RankingOutcome>) => {
+    onOutcomesChange(outcomes.map(outcome => {
+      if (outcome.id !== id) return outcome;
+      const next = { ...outcome, ...patch };
+      return { ...next, value: clampValue(next.kind, next.value) };
+    }));
+  };
+
+  // New outcomes start at 0% everywhere, so adding one changes nothing until weighted
+  const addOutcome = (preset: Omit<RankingOutcome, 'id'>) => {
+    onOutcomesChange([...outcomes, { ...preset, id: `outcome-${Date.now().toString(36)}` }]);
+  };
+
+  const removeOutcome = (id: string) => {
+    onOutcomesChange(outcomes.filter(outcome => outcome.id !== id));
+    onChange(transitions.map(bucket => {
+      const weights = { ...bucket.weights };
+      delete weights[id];
+      return { ...bucket, weights };
+    }));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-2 flex items-center">
+        <Shuffle className="mr-2" size={24} />
+        Ranking Probabilities by Current Position (%)
+      </h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Each row is normalised to 100%. Improvements that are not better than the current position count as "stay".
+        Drops are not scaled by effort and make up the traffic at risk.
+      </p>
+
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Outcomes</h3>
+      <div className="space-y-2 mb-4">
+        {outcomes.map(outcome => (
+          <div key={outcome.id} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={outcome.label}
+              onChange={(e) => updateOutcome(outcome.id, { label: e.target.value })}
+              className="w-48 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={outcome.kind}
+              onChange={(e) => updateOutcome(outcome.id, { kind: e.target.value as RankingOutcome['kind'] })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="position">Reach position</option>
+              <option value="shift">Move by (positive = drop)</option>
+            </select>
+            <input
+              type="number"
+              step="1"
+              value={outcome.value}
+              onChange={(e) => updateOutcome(outcome.id, { value: parseFloat(e.target.value) || 0 })}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button onClick={() => removeOutcome(outcome.id)} className="text-gray-400 hover:text-gray-700" title="Remove outcome">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <Plus className="text-gray-400" size={16} />
+        {OUTCOME_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => addOutcome(preset)}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Current Position
+              </th>
+              {['Stay', ...outcomes.map(outcome => outcome.label)].map((label, i) => (
+                <th key={i} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {transitions.map((bucket, index) => {
+              const cells = [
+                { id: null, weight: bucket.stay },
+                ...outcomes.map(outcome => ({ id: outcome.id, weight: bucket.weights[outcome.id] ?? 0 }))
+              ];
+              const total = cells.reduce((sum, cell) => sum + cell.weight, 0);
+              return (
+                <tr key={bucket.label}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{bucket.label}</td>
+                  {cells.map(cell => (
+                    <td key={cell.id ?? 'stay'} className="px-4 py-2">
+                      <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={Math.round(cell.weight * 1000) / 10}
+                        onChange={(e) => {
+                          const percent = Math.max(0, parseFloat(e.target.value) || 0);
+                          if (cell.id === null) updateStay(index, percent);
+                          else updateWeight(index, cell.id, percent);
+                        }}
+                        className="w-20 px-1 py-1 text-xs border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <div className="text-xs text-gray-500 mt-1">
+                        {total > 0 ? ((cell.weight / total) * 100).toFixed(1) : '0.0'}%
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default TransitionEditor;
@@ -0,0 +1,94 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createBackgroundImport, ImportCancelledError } from './backgroundImport';
+import type { ImportProgress } from './backgroundImport';
+import { UnsupportedFileError } from './fileParsing';
+import { EMPTY_COLUMN_MAPPING } from './schemas';
+
+type Listener = ((event: { data: unknown }) => void) | null;
+
+// In-process stand-in for the worker: requests reach the worker module's handler
+// asynchronously and its responses come back until the worker is terminated
+const workers: FakeWorker[] = [];
+const latestWorker = () => workers[workers.length - 1];
+const workerScope: { onmessage: Listener; postMessage: (message: unknown) => void } = {
+  onmessage: null,
+  postMessage: message => {
+    const worker = latestWorker();
+    if (worker && !worker.terminated) worker.onmessage?.({ data: message });
+  }
+};
+
+class FakeWorker {
+  onmessage: Listener = null;
+  onerror = null;
+  terminated = false;
+
+  constructor() {
+    workers.push(this);
+  }
+
+  postMessage(message: unknown) {
+    setTimeout(() => workerScope.onmessage?.({ data: message }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+beforeAll(async () => {
+  vi.stubGlobal('self', workerScope);
+  vi.stubGlobal('Worker', FakeWorker);
+  await import('../workers/import.worker');
+});
+
+const csv = (name: string, text: string) => new File([text], name);
+const mapping = { ...EMPTY_COLUMN_MAPPING, keyword: 'Keyword', position: 'Position', volume: 'Volume' };
+
+describe('createBackgroundImport', () => {
+  it('reports the bytes parsed across files and maps the included sources', async () => {
+    const files = [
+      csv('fr.csv', 'Keyword,Position,Volume\nchaussures,3,1000\nbottes,120,50\n'),
+      csv('de.csv', 'Keyword,Position,Volume\nschuhe,5,800\n')
+    ];
+    const total = files[0].size + files[1].size;
+    const progress: ImportProgress[] = [];
+    const session = createBackgroundImport();
+
+    const sources = await session.parse(files, p => progress.push(p));
+    expect(sources.map(s => [s.fileName, s.rowCount])).toEqual([['fr.csv', 2], ['de.csv', 1]]);
+    expect(sources[0]).not.toHaveProperty('rows');
+    expect(progress[0]).toEqual({ stage: 'parsing', loaded: 0, total });
+    expect(progress[progress.length - 1]).toEqual({ stage: 'parsing', loaded: total, total });
+
+    const { keywords, report } = await session.map(
+      sources.map(s => ({ ...s, included: s.fileName === 'fr.csv' })),
+      mapping,
+      {}
+    );
+    expect(keywords.map(k => k.keyword)).toEqual(['chaussures']);
+    expect(report).toMatchObject({ totalRows: 2, imported: 1 });
+    expect(report.counts['out-of-range-position']).toBe(1);
+    // The worker is closed once the rows are mapped
+    expect(latestWorker().terminated).toBe(true);
+    await expect(session.parse(files, () => {})).rejects.toThrow(ImportCancelledError);
+  });
+
+  it('rejects unsupported files with the file name', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const session = createBackgroundImport();
+    const error = await session.parse([csv('notes.txt', 'hello')], () => {}).catch(err => err);
+    expect(error).toBeInstanceOf(UnsupportedFileError);
+    expect(error.fileName).toBe('notes.txt');
+    session.cancel();
+  });
+
+  it('rejects the pending request and stops the worker when cancelled', async () => {
+    const session = createBackgroundImport();
+    const parsing = session.parse([csv('fr.csv', 'Keyword,Position,Volume\nchaussures,3,1000\n')], () => {});
+    session.cancel();
+    await expect(parsing).rejects.toThrow(ImportCancelledError);
+    expect(latestWorker().terminated).toBe(true);
+    await expect(session.map([], mapping, {})).rejects.toThrow(ImportCancelledError);
+  });
+});
@@ -0,0 +1,88 @@
+import { UnsupportedFileError } from './fileParsing';
+import type { SourceInfo } from './sources';
+import type { ImportReport, MapRowsOptions } from './importer';
+import type { ImportMessage, ImportRequest } from '../workers/import.worker';
+import type { ColumnMapping, KeywordData } from '../types';
+
+export interface ImportProgress {
+  stage: 'parsing' | 'mapping';
+  // Bytes read, only known while parsing
+  loaded: number;
+  total: number;
+}
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+// One import session: the worker keeps the parsed rows until they are mapped,
+// and cancelling terminates it so nothing is left running
+export interface BackgroundImport {
+  parse: (files: File[], onProgress: (progress: ImportProgress) => void) => Promise<SourceInfo[]>;
+  map: (sources: SourceInfo[], mapping: ColumnMapping, options: MapRowsOptions) => Promise<{ keywords: KeywordData[]; report: ImportReport }>;
+  cancel: () => void;
+}
+
+export const createBackgroundImport = (): BackgroundImport => {
+  const worker = new Worker(new URL('../workers/import.worker.ts', import.meta.url), { type: 'module' });
+  let pending: { reject: (err: Error) => void } | null = null;
+  let closed = false;
+
+  const request = <T>(
+    message: ImportRequest,
+    handle: (response: ImportMessage, resolve: (value: T) => void) => void
+  ): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (closed) {
+        reject(new ImportCancelledError());
+        return;
+      }
+      pending = { reject };
+      worker.onmessage = (event: MessageEvent<ImportMessage>) => {
+        const response = event.data;
+        if (response.type === 'error') {
+          pending = null;
+          reject(response.unsupportedFile ? new UnsupportedFileError(response.unsupportedFile) : new Error(response.message));
+          return;
+        }
+        handle(response, value => {
+          pending = null;
+          resolve(value);
+        });
+      };
+      worker.onerror = (event) => {
+        pending = null;
+        reject(new Error(event.message));
+      };
+      worker.postMessage(message);
+    });
+
+  return {
+    parse: (files, onProgress) => {
+      const total = files.reduce((sum, file) => sum + file.size, 0);
+      onProgress({ stage: 'parsing', loaded: 0, total });
+      return request<SourceInfo[]>({ type: 'parse', files }, (response, resolve) => {
+        if (response.type === 'progress') onProgress({ stage: 'parsing', loaded: response.loaded, total: response.total });
+        if (response.type === 'parsed') resolve(response.sources);
+      });
+    },
+    // The worker drops the raw rows once mapped, so it is closed afterwards
+    map: (sources, mapping, options) =>
+      request<{ keywords: KeywordData[]; report: ImportReport }>({ type: 'map', sources, mapping, options }, (response, resolve) => {
+        if (response.type === 'mapped') {
+          worker.terminate();
+          closed = true;
+          resolve({ keywords: response.keywords, report: response.report });
+        }
+      }),
+    cancel: () => {
+      closed = true;
+      worker.terminate();
+      pending?.reject(new ImportCancelledError());
+      pending = null;
+    }
+  };
+};
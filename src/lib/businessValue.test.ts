@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BUSINESS_VALUE, hasBusinessValue, valueRatesFor } from './businessValue';
+import { DEFAULT_MODEL_CONFIG, processKeyword } from './forecast';
+import type { BusinessValueConfig } from '../types';
+
+const value: BusinessValueConfig = {
+  conversionRate: 2,
+  averageOrderValue: 50,
+  currency: 'EUR',
+  rules: [
+    { scope: 'url', match: '/blog/', conversionRate: 0.5, averageOrderValue: 50 },
+    { scope: 'url', match: '(', conversionRate: 99, averageOrderValue: 99 },
+    { scope: 'segment', match: 'transactional', conversionRate: 4, averageOrderValue: 80 }
+  ]
+};
+
+describe('valueRatesFor', () => {
+  it('uses the first matching rule, then the global rates', () => {
+    expect(valueRatesFor(value, 'https://site.com/blog/post', 'transactional')).toEqual({ conversionRate: 0.5, averageOrderValue: 50 });
+    expect(valueRatesFor(value, 'https://site.com/shop', 'transactional')).toEqual({ conversionRate: 4, averageOrderValue: 80 });
+    expect(valueRatesFor(value, undefined, 'generic')).toEqual({ conversionRate: 2, averageOrderValue: 50 });
+  });
+});
+
+describe('hasBusinessValue', () => {
+  it('is false until an order value or a CPC is known', () => {
+    expect(hasBusinessValue(DEFAULT_BUSINESS_VALUE, [{}])).toBe(false);
+    expect(hasBusinessValue(DEFAULT_BUSINESS_VALUE, [{ cpc: 1.2 }])).toBe(true);
+    expect(hasBusinessValue(value, [])).toBe(true);
+  });
+});
+
+describe('keyword value', () => {
+  it('derives conversions, revenue and paid value from the traffic', () => {
+    const k = processKeyword(
+      { keyword: 'running shoes', position: 8, searchVolume: 1000, currentTraffic: 100, cpc: 1.5 },
+      { ...DEFAULT_MODEL_CONFIG, businessValue: value }
+    );
+    expect(k.currentConversions).toBeCloseTo(2);
+    expect(k.currentRevenue).toBeCloseTo(100);
+    expect(k.currentPaidValue).toBeCloseTo(150);
+    expect(k.revenueGain).toBeCloseTo(k.expectedGain * 0.02 * 50);
+  });
+});
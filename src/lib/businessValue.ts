@@ -0,0 +1,47 @@
+import { isValidPattern } from './segments';
+import type { BusinessValueConfig, KeywordSegment, ValueRates } from '../types';
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY'];
+
+export const DEFAULT_BUSINESS_VALUE: BusinessValueConfig = {
+  conversionRate: 2,
+  averageOrderValue: 0,
+  currency: 'USD',
+  rules: []
+};
+
+type RateLookup = (url: string | undefined, segment: KeywordSegment) => ValueRates;
+
+const lookups = new WeakMap<BusinessValueConfig, RateLookup>();
+
+const buildLookup = (value: BusinessValueConfig): RateLookup => {
+  const rules = value.rules
+    .filter(rule => rule.match && (rule.scope === 'segment' || isValidPattern(rule.match)))
+    .map(rule => ({
+      ...rule,
+      regex: rule.scope === 'url' ? new RegExp(rule.match, 'i') : null
+    }));
+
+  // The first matching rule wins, otherwise the global rates apply
+  return (url, segment) => {
+    const rule = rules.find(r => (r.regex ? !!url && r.regex.test(url) : r.match === segment));
+    return rule ?? value;
+  };
+};
+
+export const valueRatesFor = (value: BusinessValueConfig, url: string | undefined, segment: KeywordSegment): ValueRates => {
+  let lookup = lookups.get(value);
+  if (!lookup) {
+    lookup = buildLookup(value);
+    lookups.set(value, lookup);
+  }
+  const { conversionRate, averageOrderValue } = lookup(url, segment);
+  return { conversionRate, averageOrderValue };
+};
+
+// Whether there is anything to show besides traffic
+export const hasBusinessValue = (value: BusinessValueConfig, keywords: { cpc?: number }[]): boolean =>
+  value.averageOrderValue > 0 || value.rules.some(r => r.averageOrderValue > 0) || keywords.some(k => !!k.cpc);
+
+export const formatMoney = (amount: number, currency: string): string =>
+  amount.toLocaleString(undefined, { style: 'currency', currency, maximumFractionDigits: 0 });
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { findCannibalization } from './cannibalization';
+import { calculateCTR, DEFAULT_MODEL_CONFIG, keepBestRanking } from './forecast';
+
+const keywords = [
+  { keyword: 'running shoes', position: 9, searchVolume: 1000, url: '/running' },
+  { keyword: 'Running Shoes', position: 4, searchVolume: 1000, url: '/shoes' },
+  { keyword: 'trail shoes', position: 6, searchVolume: 500, url: '/trail' },
+  { keyword: 'hiking boots', position: 12, searchVolume: 800, url: '/boots', source: 'FR' },
+  { keyword: 'hiking boots', position: 7, searchVolume: 800, url: '/boots-de', source: 'DE' }
+];
+
+describe('findCannibalization', () => {
+  it('finds keywords for which several URLs rank, per source', () => {
+    const results = findCannibalization(keywords, DEFAULT_MODEL_CONFIG);
+    expect(results.map(r => r.keyword)).toEqual(['Running Shoes']);
+    expect(results[0].pages.map(p => p.url)).toEqual(['/shoes', '/running']);
+  });
+
+  it('estimates the gain of merging the pages into the best-ranking one', () => {
+    const [result] = findCannibalization(keywords, DEFAULT_MODEL_CONFIG);
+    const ctr = (position: number) => calculateCTR(position, DEFAULT_MODEL_CONFIG, false);
+    expect(result.currentTraffic).toBeCloseTo(1000 * (ctr(4) + ctr(9)) / 100);
+    expect(result.consolidatedTraffic).toBeCloseTo(1000 * ctr(3) / 100);
+    expect(result.consolidationGain).toBeCloseTo(result.consolidatedTraffic - result.currentTraffic);
+    expect(result.duplicateGain).toBe(result.pages[1].expectedGain);
+  });
+
+  it('honours the consolidation boost without going above position 1', () => {
+    const [result] = findCannibalization(keywords, DEFAULT_MODEL_CONFIG, { consolidationBoost: 10 });
+    expect(result.consolidatedTraffic).toBeCloseTo(1000 * calculateCTR(1, DEFAULT_MODEL_CONFIG, false) / 100);
+  });
+
+  it('ignores the same URL listed twice and filtered keywords', () => {
+    const duplicates = [
+      { keyword: 'laces', position: 3, searchVolume: 100, url: '/laces' },
+      { keyword: 'laces', position: 5, searchVolume: 100, url: '/laces' },
+      { keyword: 'socks', position: 3, searchVolume: 5, url: '/socks' },
+      { keyword: 'socks', position: 5, searchVolume: 5, url: '/socks-2' }
+    ];
+    expect(findCannibalization(duplicates, DEFAULT_MODEL_CONFIG)).toEqual([]);
+  });
+});
+
+describe('keepBestRanking', () => {
+  it('keeps the best-ranking URL, or the one with more traffic on a tie, in input order', () => {
+    const best = keepBestRanking([
+      ...keywords,
+      { keyword: 'trail shoes', position: 6, searchVolume: 500, url: '/trail-2', currentTraffic: 20 }
+    ]);
+    expect(best.map(k => [k.keyword, k.url])).toEqual([
+      ['Running Shoes', '/shoes'],
+      ['hiking boots', '/boots'],
+      ['hiking boots', '/boots-de'],
+      ['trail shoes', '/trail-2']
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { calculateCTR, cannibalizationKey, filterKeywords, processKeyword } from './forecast';
+import type { KeywordData, ModelConfig, ProcessedKeyword } from '../types';
+
+export interface CannibalizedKeyword {
+  keyword: string;
+  source?: string;
+  searchVolume: number;
+  // Every competing page, best-ranking first; the forecast only counts the first one
+  pages: ProcessedKeyword[];
+  // Traffic the competing pages get today, all together
+  currentTraffic: number;
+  // Expected gain the other pages would have added if they were counted too
+  duplicateGain: number;
+  consolidatedTraffic: number;
+  consolidationGain: number;
+}
+
+export interface CannibalizationOptions {
+  // Positions the best page is assumed to gain once the others are merged into it
+  consolidationBoost: number;
+}
+
+export const DEFAULT_CANNIBALIZATION_OPTIONS: CannibalizationOptions = { consolidationBoost: 1 };
+
+// Keywords for which several of our URLs rank, with the gain expected from
+// consolidating them into the best-ranking one
+export const findCannibalization = (
+  keywords: KeywordData[],
+  config: ModelConfig,
+  options: CannibalizationOptions = DEFAULT_CANNIBALIZATION_OPTIONS
+): CannibalizedKeyword[] => {
+  const groups = new Map<string, KeywordData[]>();
+  for (const k of filterKeywords(keywords, config)) {
+    const key = cannibalizationKey(k);
+    const list = groups.get(key);
+    if (list) list.push(k);
+    else groups.set(key, [k]);
+  }
+
+  const results: CannibalizedKeyword[] = [];
+  for (const rows of groups.values()) {
+    if (new Set(rows.map(r => r.url ?? '')).size < 2) continue;
+    const pages = rows
+      .map(r => processKeyword(r, config))
+      .sort((a, b) => a.position - b.position || b.estimatedCurrentTraffic - a.estimatedCurrentTraffic);
+    const [best, ...others] = pages;
+    const currentTraffic = pages.reduce((sum, p) => sum + p.estimatedCurrentTraffic, 0);
+    const target = Math.max(1, best.position - options.consolidationBoost);
+    const consolidatedTraffic =
+      best.searchVolume * calculateCTR(target, config, false, best.segment, best.serpFeatures) / 100;
+    results.push({
+      keyword: best.keyword,
+      source: best.source,
+      searchVolume: best.searchVolume,
+      pages,
+      currentTraffic,
+      duplicateGain: others.reduce((sum, p) => sum + p.expectedGain, 0),
+      consolidatedTraffic,
+      consolidationGain: consolidatedTraffic - currentTraffic
+    });
+  }
+  return results.sort((a, b) => b.consolidationGain - a.consolidationGain);
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { clusterKeywords, DEFAULT_CLUSTERING_OPTIONS, keywordKey, summarizeClusters, tokenize, withClusterNames } from './clustering';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+import type { KeywordData } from '../types';
+
+const keywords: KeywordData[] = [
+  { keyword: 'running shoes', position: 8, searchVolume: 5000 },
+  { keyword: 'running shoe', position: 9, searchVolume: 1500 },
+  { keyword: 'shoes running', position: 11, searchVolume: 400 },
+  { keyword: 'best running shoes for women', position: 12, searchVolume: 900 },
+  { keyword: 'hiking boots', position: 6, searchVolume: 800 },
+  { keyword: 'waterproof hiking boots', position: 14, searchVolume: 300 }
+];
+
+const clusterOf = (assignment: Map<string, string>, keyword: string) =>
+  assignment.get(keywordKey(keywords.find(k => k.keyword === keyword) as KeywordData));
+
+describe('tokenize', () => {
+  it('drops stopwords, accents and plural s', () => {
+    expect(tokenize('Chaussures de randonnée pour Femmes')).toEqual(['chaussure', 'randonnee', 'femme']);
+    expect(tokenize('dress for the class')).toEqual(['dress', 'class']);
+  });
+});
+
+describe('clusterKeywords', () => {
+  it('groups close variants under the highest-volume keyword', () => {
+    const assignment = clusterKeywords(keywords);
+    const leader = keywordKey(keywords[0]);
+    expect(clusterOf(assignment, 'running shoe')).toBe(leader);
+    expect(clusterOf(assignment, 'shoes running')).toBe(leader);
+    expect(clusterOf(assignment, 'waterproof hiking boots')).toBe(clusterOf(assignment, 'hiking boots'));
+    expect(clusterOf(assignment, 'hiking boots')).not.toBe(leader);
+  });
+
+  it('applies manual splits and merges', () => {
+    const split = keywordKey(keywords[1]);
+    const boots = keywordKey(keywords[4]);
+    const assignment = clusterKeywords(keywords, {
+      ...DEFAULT_CLUSTERING_OPTIONS,
+      overrides: { split: [split], merged: { [boots]: keywordKey(keywords[0]) } }
+    });
+    expect(assignment.get(split)).toBe(split);
+    expect(clusterOf(assignment, 'hiking boots')).toBe(keywordKey(keywords[0]));
+  });
+
+  it('survives merge cycles', () => {
+    const a = keywordKey(keywords[0]);
+    const b = keywordKey(keywords[4]);
+    const assignment = clusterKeywords(keywords, { ...DEFAULT_CLUSTERING_OPTIONS, overrides: { split: [], merged: { [a]: b, [b]: a } } });
+    expect(assignment.size).toBe(keywords.length);
+  });
+});
+
+describe('summarizeClusters', () => {
+  it('counts the gain of close variants once', () => {
+    const processed = processKeywords(keywords, DEFAULT_MODEL_CONFIG);
+    const clusters = summarizeClusters(processed, clusterKeywords(keywords));
+    const running = clusters.find(c => c.name === 'running shoes');
+    const variants = processed.filter(k => ['running shoes', 'running shoe', 'shoes running'].includes(k.keyword));
+    expect(running?.dedupedGain).toBeLessThan(running?.expectedGain ?? 0);
+    expect(running?.expectedGain).toBeCloseTo(
+      variants.reduce((sum, k) => sum + k.expectedGain, 0) +
+        (processed.find(k => k.keyword === 'best running shoes for women')?.expectedGain ?? 0)
+    );
+    expect(withClusterNames(processed, clusters).find(k => k.keyword === 'shoes running')?.cluster).toBe('running shoes');
+  });
+});
@@ -0,0 +1,194 @@
+import type { KeywordData, ProcessedKeyword } from '../types';
+
+export interface ClusterOverrides {
+  // Cluster id -> id of the cluster it was merged into
+  merged: { [clusterId: string]: string };
+  // Keyword keys pulled out of their cluster into one of their own
+  split: string[];
+}
+
+export interface ClusteringOptions {
+  // Minimum similarity (0..1) for a keyword to join a cluster
+  threshold: number;
+  overrides: ClusterOverrides;
+}
+
+export interface KeywordCluster {
+  id: string;
+  // Highest-volume keyword of the cluster
+  name: string;
+  keywords: ProcessedKeyword[];
+  currentTraffic: number;
+  expectedTraffic: number;
+  expectedGain: number;
+  // Gain counting close variants ("shoe"/"shoes", reordered words) only once
+  dedupedGain: number;
+}
+
+export const EMPTY_CLUSTER_OVERRIDES: ClusterOverrides = { merged: {}, split: [] };
+
+export const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  threshold: 0.5,
+  overrides: EMPTY_CLUSTER_OVERRIDES
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'with', 'at', 'by', 'from', 'is', 'vs',
+  'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'et', 'en', 'au', 'aux', 'pour', 'sur', 'avec'
+]);
+
+export const keywordKey = (k: KeywordData): string =>
+  `${k.source ?? ''}|${k.keyword.toLowerCase()}|${(k.url ?? '').toLowerCase()}`;
+
+// Lowercased, accent-free tokens without stopwords and with a naive plural strip
+export const tokenize = (keyword: string): string[] =>
+  keyword
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(t => t && !STOPWORDS.has(t))
+    .map(t => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+
+const trigrams = (value: string): Set<string> => {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+const overlap = <T>(a: Set<T>, b: Set<T>) => {
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared;
+};
+
+interface Profile {
+  tokens: Set<string>;
+  grams: Set<string>;
+  url: string;
+}
+
+const profileOf = (k: KeywordData): Profile => {
+  const tokens = tokenize(k.keyword);
+  return { tokens: new Set(tokens), grams: trigrams(tokens.join(' ')), url: (k.url ?? '').toLowerCase() };
+};
+
+// Token Jaccard blended with character-trigram Dice, plus a bonus when both
+// keywords rank with the same URL
+export const keywordSimilarity = (a: Profile, b: Profile): number => {
+  const tokenUnion = a.tokens.size + b.tokens.size - overlap(a.tokens, b.tokens);
+  const jaccard = tokenUnion ? overlap(a.tokens, b.tokens) / tokenUnion : 0;
+  const gramTotal = a.grams.size + b.grams.size;
+  const dice = gramTotal ? (2 * overlap(a.grams, b.grams)) / gramTotal : 0;
+  const sameUrl = a.url && a.url === b.url ? 0.2 : 0;
+  return Math.min(1, 0.6 * jaccard + 0.4 * dice + sameUrl);
+};
+
+const resolveMerge = (id: string, merged: ClusterOverrides['merged']): string => {
+  const seen = new Set<string>();
+  let current = id;
+  while (merged[current] && !seen.has(current)) {
+    seen.add(current);
+    current = merged[current];
+  }
+  return current;
+};
+
+// Greedy leader clustering: keywords are visited by descending volume and join
+// the most similar existing cluster whose leader shares a token or URL with them.
+// Returns keyword key -> cluster id, the id being the leader's keyword key.
+export const clusterKeywords = (
+  keywords: KeywordData[],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS
+): Map<string, string> => {
+  const split = new Set(options.overrides.split);
+  const sorted = [...keywords].sort((a, b) => b.searchVolume - a.searchVolume);
+  const leaders = new Map<string, Profile>();
+  const byToken = new Map<string, string[]>();
+  const byUrl = new Map<string, string[]>();
+  const assignment = new Map<string, string>();
+
+  const index = (map: Map<string, string[]>, key: string, id: string) => {
+    const list = map.get(key);
+    if (list) list.push(id);
+    else map.set(key, [id]);
+  };
+
+  for (const k of sorted) {
+    const key = keywordKey(k);
+    if (assignment.has(key)) continue;
+    const profile = profileOf(k);
+
+    let best = { id: '', score: options.threshold };
+    if (!split.has(key)) {
+      const candidates = new Set<string>();
+      profile.tokens.forEach(t => byToken.get(t)?.forEach(id => candidates.add(id)));
+      if (profile.url) byUrl.get(profile.url)?.forEach(id => candidates.add(id));
+      for (const id of candidates) {
+        const score = keywordSimilarity(profile, leaders.get(id) as Profile);
+        if (score >= best.score) best = { id, score };
+      }
+    }
+
+    if (best.id) {
+      assignment.set(key, best.id);
+      continue;
+    }
+    assignment.set(key, key);
+    // Split keywords lead their own cluster but never attract others
+    if (split.has(key)) continue;
+    leaders.set(key, profile);
+    profile.tokens.forEach(t => index(byToken, t, key));
+    if (profile.url) index(byUrl, profile.url, key);
+  }
+
+  for (const [key, id] of assignment) {
+    assignment.set(key, resolveMerge(id, options.overrides.merged));
+  }
+  return assignment;
+};
+
+const variantKey = (keyword: string) => [...new Set(tokenize(keyword))].sort().join(' ');
+
+export const summarizeClusters = (
+  processedKeywords: ProcessedKeyword[],
+  assignment: Map<string, string>
+): KeywordCluster[] => {
+  const groups = new Map<string, ProcessedKeyword[]>();
+  for (const k of processedKeywords) {
+    const key = keywordKey(k);
+    const id = assignment.get(key) ?? key;
+    const list = groups.get(id);
+    if (list) list.push(k);
+    else groups.set(id, [k]);
+  }
+
+  return Array.from(groups, ([id, members]) => {
+    const byVolume = [...members].sort((a, b) => b.searchVolume - a.searchVolume);
+    const bestPerVariant = new Map<string, number>();
+    for (const k of members) {
+      const variant = variantKey(k.keyword);
+      bestPerVariant.set(variant, Math.max(bestPerVariant.get(variant) ?? -Infinity, k.expectedGain));
+    }
+    return {
+      id,
+      name: byVolume[0].keyword,
+      keywords: byVolume,
+      currentTraffic: members.reduce((sum, k) => sum + k.estimatedCurrentTraffic, 0),
+      expectedTraffic: members.reduce((sum, k) => sum + k.expectedTraffic, 0),
+      expectedGain: members.reduce((sum, k) => sum + k.expectedGain, 0),
+      dedupedGain: Array.from(bestPerVariant.values()).reduce((sum, gain) => sum + gain, 0)
+    };
+  }).sort((a, b) => b.dedupedGain - a.dedupedGain);
+};
+
+// Tags each keyword with the name of its cluster
+export const withClusterNames = (
+  processedKeywords: ProcessedKeyword[],
+  clusters: KeywordCluster[]
+): ProcessedKeyword[] => {
+  const names = new Map<string, string>();
+  clusters.forEach(c => c.keywords.forEach(k => names.set(keywordKey(k), c.name)));
+  return processedKeywords.map(k => ({ ...k, cluster: names.get(keywordKey(k)) }));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { compareExports } from './comparison';
+import { DEFAULT_MODEL_CONFIG } from './forecast';
+import type { RankingOutcome } from '../types';
+
+const baseline = [
+  { keyword: 'running shoes', position: 8, searchVolume: 1000, url: '/running' },
+  { keyword: 'trail shoes', position: 15, searchVolume: 500, url: '/trail' },
+  { keyword: 'hiking boots', position: 5, searchVolume: 300, url: '/boots' }
+];
+const current = [
+  { keyword: 'Running Shoes', position: 2, searchVolume: 1000, url: '/running' },
+  { keyword: 'trail shoes', position: 18, searchVolume: 500, url: '/trail' },
+  { keyword: 'shoe laces', position: 4, searchVolume: 200, url: '/laces' }
+];
+
+describe('compareExports', () => {
+  it('joins on keyword and URL and classifies the rows', () => {
+    const result = compareExports(baseline, current, DEFAULT_MODEL_CONFIG);
+    expect(result.counts).toEqual({ kept: 2, new: 1, lost: 1 });
+    expect(result.improved).toBe(1);
+    expect(result.declined).toBe(1);
+    const running = result.rows.find(r => r.keyword === 'running shoes');
+    expect(running).toMatchObject({ status: 'kept', baselinePosition: 8, currentPosition: 2, positionDelta: 6 });
+  });
+
+  it('matches keywords whose URL changed when URLs are ignored', () => {
+    const moved = [{ ...baseline[0], url: '/shoes/running' }];
+    expect(compareExports(baseline.slice(0, 1), moved, DEFAULT_MODEL_CONFIG).counts.kept).toBe(0);
+    expect(compareExports(baseline.slice(0, 1), moved, DEFAULT_MODEL_CONFIG, false).counts.kept).toBe(1);
+  });
+
+  it('compares the forecast with the traffic observed later', () => {
+    const result = compareExports(baseline, current, DEFAULT_MODEL_CONFIG);
+    const lost = result.rows.find(r => r.status === 'lost');
+    expect(lost?.currentTraffic).toBe(0);
+    expect(lost?.forecastError).toBeCloseTo(-(lost?.forecastTraffic ?? 0));
+    expect(result.forecastMae).toBeGreaterThan(0);
+  });
+
+  it('counts the outcome reached per starting bucket', () => {
+    const result = compareExports(baseline, current, DEFAULT_MODEL_CONFIG);
+    const bucket = result.buckets.find(b => b.label === '4-10');
+    expect(result.outcomeLabels).toEqual(['Position 3', 'Position 2', 'Position 1']);
+    // #8 → #2 reached position 2 (and 3); the best target reached wins. #5 was lost.
+    expect(bucket?.keywords).toBe(2);
+    expect(bucket?.observed).toEqual({ stay: 0.5, outcomes: [0, 0.5, 0] });
+    expect((bucket?.predicted.stay ?? 0) + (bucket?.predicted.outcomes ?? []).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+
+  it('counts lost keywords as drops', () => {
+    const drop: RankingOutcome = { id: 'drop', label: 'Drop 10', kind: 'shift', value: 10 };
+    const config = { ...DEFAULT_MODEL_CONFIG, outcomes: [...DEFAULT_MODEL_CONFIG.outcomes, drop] };
+    const bucket = compareExports(baseline, current, config).buckets.find(b => b.label === '4-10');
+    expect(bucket?.observed.outcomes[3]).toBe(0.5);
+  });
+});
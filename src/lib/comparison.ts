@@ -0,0 +1,179 @@
+import type { KeywordData, ModelConfig, ProcessedKeyword } from '../types';
+import { effortScale, processKeyword } from './forecast';
+import { findTransitionBucket, isDownsideOutcome, MAX_TARGET_POSITION, outcomePosition, transitionProbabilities } from './transitions';
+
+export type ComparisonStatus = 'kept' | 'new' | 'lost';
+
+export interface ComparisonRow {
+  keyword: string;
+  url?: string;
+  status: ComparisonStatus;
+  baselinePosition?: number;
+  currentPosition?: number;
+  // Positive when the keyword moved up
+  positionDelta?: number;
+  baselineTraffic: number;
+  currentTraffic: number;
+  trafficDelta: number;
+  // What the model expected from the baseline, to compare with currentTraffic
+  forecastTraffic: number;
+  forecastError: number;
+}
+
+// Share of keywords per outcome, in the order of the configured outcomes
+export interface OutcomeShares {
+  stay: number;
+  outcomes: number[];
+}
+
+// Observed outcomes for keywords that started in a transition bucket, next to
+// what the model predicted for them
+export interface BucketBacktest {
+  label: string;
+  keywords: number;
+  observed: OutcomeShares;
+  predicted: OutcomeShares;
+}
+
+export interface ComparisonResult {
+  rows: ComparisonRow[];
+  counts: { [K in ComparisonStatus]: number };
+  improved: number;
+  declined: number;
+  totalBaselineTraffic: number;
+  totalCurrentTraffic: number;
+  totalForecastTraffic: number;
+  // Mean absolute error of the per-keyword forecast
+  forecastMae: number;
+  // Labels of the outcomes the buckets are split by
+  outcomeLabels: string[];
+  buckets: BucketBacktest[];
+}
+
+const joinKey = (k: KeywordData, matchUrl: boolean) =>
+  k.keyword.toLowerCase() + (matchUrl && k.url ? `|${k.url.toLowerCase()}` : '');
+
+// Keeps the best-ranking row per join key
+const indexKeywords = (keywords: KeywordData[], config: ModelConfig, matchUrl: boolean) => {
+  const index = new Map<string, ProcessedKeyword>();
+  for (const k of keywords) {
+    const key = joinKey(k, matchUrl);
+    const existing = index.get(key);
+    if (!existing || k.position < existing.position) index.set(key, processKeyword(k, config));
+  }
+  return index;
+};
+
+// Index of the outcome a move from `from` to `to` reached, or -1 for "stay".
+// The most ambitious improvement reached wins, then the largest drop; lost
+// keywords count as having dropped out of the top 100.
+const observedOutcome = (config: ModelConfig, from: number, to: number | undefined): number => {
+  const landed = to === undefined ? MAX_TARGET_POSITION + 1 : Math.round(to);
+  let best = -1;
+  let bestTarget = 0;
+  config.outcomes.forEach((outcome, i) => {
+    if (isDownsideOutcome(outcome)) return;
+    const target = outcomePosition(outcome, from);
+    if (target < from && landed <= target && (best === -1 || target < bestTarget)) {
+      best = i;
+      bestTarget = target;
+    }
+  });
+  if (best !== -1) return best;
+  config.outcomes.forEach((outcome, i) => {
+    if (!isDownsideOutcome(outcome)) return;
+    const target = outcomePosition(outcome, from);
+    if (target > from && landed >= target && (best === -1 || target > bestTarget)) {
+      best = i;
+      bestTarget = target;
+    }
+  });
+  return best;
+};
+
+const backtestBuckets = (rows: ComparisonRow[], config: ModelConfig): BucketBacktest[] => {
+  const scale = effortScale(config.effort);
+  return config.transitions.map(bucket => {
+    const started = rows.filter(r =>
+      r.baselinePosition !== undefined &&
+      findTransitionBucket(config.transitions, r.baselinePosition) === bucket
+    );
+    const observed: OutcomeShares = { stay: 0, outcomes: config.outcomes.map(() => 0) };
+    const predicted: OutcomeShares = { stay: 0, outcomes: config.outcomes.map(() => 0) };
+    for (const r of started) {
+      const from = r.baselinePosition as number;
+      const reached = observedOutcome(config, from, r.currentPosition);
+      if (reached === -1) observed.stay++;
+      else observed.outcomes[reached]++;
+
+      const p = transitionProbabilities(config.transitions, config.outcomes, from, scale);
+      predicted.stay += p.probStay;
+      p.probabilities.forEach((probability, i) => { predicted.outcomes[i] += probability; });
+    }
+    const n = started.length || 1;
+    const share = (o: OutcomeShares): OutcomeShares => ({ stay: o.stay / n, outcomes: o.outcomes.map(count => count / n) });
+    return { label: bucket.label, keywords: started.length, observed: share(observed), predicted: share(predicted) };
+  });
+};
+
+export const compareExports = (
+  baseline: KeywordData[],
+  current: KeywordData[],
+  config: ModelConfig,
+  matchUrl = true
+): ComparisonResult => {
+  const before = indexKeywords(baseline, config, matchUrl);
+  const after = indexKeywords(current, config, matchUrl);
+  const rows: ComparisonRow[] = [];
+
+  for (const [key, b] of before) {
+    const a = after.get(key);
+    const currentTraffic = a ? a.estimatedCurrentTraffic : 0;
+    rows.push({
+      keyword: b.keyword,
+      url: a?.url ?? b.url,
+      status: a ? 'kept' : 'lost',
+      baselinePosition: b.position,
+      currentPosition: a?.position,
+      positionDelta: a ? b.position - a.position : undefined,
+      baselineTraffic: b.estimatedCurrentTraffic,
+      currentTraffic,
+      trafficDelta: currentTraffic - b.estimatedCurrentTraffic,
+      forecastTraffic: b.expectedTraffic,
+      forecastError: currentTraffic - b.expectedTraffic
+    });
+  }
+  for (const [key, a] of after) {
+    if (before.has(key)) continue;
+    rows.push({
+      keyword: a.keyword,
+      url: a.url,
+      status: 'new',
+      currentPosition: a.position,
+      baselineTraffic: 0,
+      currentTraffic: a.estimatedCurrentTraffic,
+      trafficDelta: a.estimatedCurrentTraffic,
+      forecastTraffic: 0,
+      forecastError: a.estimatedCurrentTraffic
+    });
+  }
+
+  const counts = { kept: 0, new: 0, lost: 0 };
+  rows.forEach(r => counts[r.status]++);
+  const backtested = rows.filter(r => r.status !== 'new');
+
+  return {
+    rows: rows.sort((x, y) => Math.abs(y.trafficDelta) - Math.abs(x.trafficDelta)),
+    counts,
+    improved: rows.filter(r => (r.positionDelta ?? 0) > 0).length,
+    declined: rows.filter(r => (r.positionDelta ?? 0) < 0).length,
+    totalBaselineTraffic: rows.reduce((sum, r) => sum + r.baselineTraffic, 0),
+    totalCurrentTraffic: rows.reduce((sum, r) => sum + r.currentTraffic, 0),
+    totalForecastTraffic: rows.reduce((sum, r) => sum + r.forecastTraffic, 0),
+    forecastMae: backtested.length
+      ? backtested.reduce((sum, r) => sum + Math.abs(r.forecastError), 0) / backtested.length
+      : 0,
+    outcomeLabels: config.outcomes.map(o => o.label),
+    buckets: backtestBuckets(rows, config)
+  };
+};
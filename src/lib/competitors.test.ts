@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { competitorIndex, competitorsAbove, findGapOpportunities, withCompetitors } from './competitors';
+import type { Competitor } from './competitors';
+import { competitionScale } from './transitions';
+import { calculateCTR, DEFAULT_MODEL_CONFIG, processKeyword } from './forecast';
+
+const competitors: Competitor[] = [
+  {
+    id: 'c1',
+    domain: 'rival.com',
+    keywords: [
+      { keyword: 'Running Shoes', position: 2, searchVolume: 1000, url: '/run' },
+      { keyword: 'running shoes', position: 6, searchVolume: 1000, url: '/run-2' },
+      { keyword: 'trail shoes', position: 1, searchVolume: 500, url: '/trail' },
+      { keyword: 'sandals', position: 70, searchVolume: 900, url: '/sandals' }
+    ]
+  },
+  {
+    id: 'c2',
+    domain: 'other.com',
+    keywords: [
+      { keyword: 'running shoes', position: 1, searchVolume: 1000, url: '/shoes' },
+      { keyword: 'trail shoes', position: 4, searchVolume: 800, url: '/trail' },
+      { keyword: 'socks', position: 3, searchVolume: 5, url: '/socks' }
+    ]
+  }
+];
+
+const ours = [{ keyword: 'running shoes', position: 5, searchVolume: 1000, url: '/running' }];
+
+describe('competitorIndex', () => {
+  it('keeps the best position of each competitor per keyword, best first', () => {
+    const index = competitorIndex(competitors);
+    expect(index.get('running shoes')).toEqual([
+      { domain: 'other.com', position: 1, url: '/shoes' },
+      { domain: 'rival.com', position: 2, url: '/run' }
+    ]);
+    expect(index.has('Running Shoes')).toBe(false);
+  });
+});
+
+describe('withCompetitors', () => {
+  it('attaches the rankings case-insensitively', () => {
+    const [keyword] = withCompetitors([{ ...ours[0], keyword: 'Running shoes' }], competitorIndex(competitors));
+    expect(keyword.competitors?.map(c => c.domain)).toEqual(['other.com', 'rival.com']);
+  });
+
+  it('returns the keywords as they are without competitors', () => {
+    expect(withCompetitors(ours, new Map())).toBe(ours);
+  });
+});
+
+describe('competitorsAbove', () => {
+  it('lists the competitors ranking better than us', () => {
+    const [keyword] = withCompetitors([{ ...ours[0], position: 2 }], competitorIndex(competitors));
+    expect(competitorsAbove(keyword).map(c => c.domain)).toEqual(['other.com']);
+    expect(competitorsAbove(ours[0])).toEqual([]);
+  });
+});
+
+describe('competitionScale', () => {
+  const rankings = [
+    { domain: 'a.com', position: 1 },
+    { domain: 'b.com', position: 3 },
+    { domain: 'c.com', position: 8 }
+  ];
+
+  it('leaves the odds alone unless enabled', () => {
+    expect(competitionScale(10, rankings, DEFAULT_MODEL_CONFIG.competition)).toBe(1);
+  });
+
+  it('takes the penalty off for every competitor in the top 3 above the keyword', () => {
+    const config = { adjustProbabilities: true, penaltyPerCompetitor: 20 };
+    expect(competitionScale(10, rankings, config)).toBeCloseTo(0.64);
+    expect(competitionScale(2, rankings, config)).toBeCloseTo(0.8);
+    expect(competitionScale(10, undefined, config)).toBe(1);
+    expect(competitionScale(10, rankings, { ...config, penaltyPerCompetitor: 150 })).toBe(0);
+  });
+
+  it('lowers the expected gain of contested keywords', () => {
+    const config = { ...DEFAULT_MODEL_CONFIG, competition: { adjustProbabilities: true, penaltyPerCompetitor: 50 } };
+    const [contested] = withCompetitors(ours, competitorIndex(competitors));
+    expect(processKeyword(contested, config).expectedGain).toBeLessThan(processKeyword(ours[0], config).expectedGain);
+  });
+});
+
+describe('findGapOpportunities', () => {
+  it('lists the keywords only competitors rank for, within the filters', () => {
+    const gaps = findGapOpportunities(ours, competitors, DEFAULT_MODEL_CONFIG);
+    expect(gaps.map(g => g.keyword)).toEqual(['trail shoes']);
+    expect(gaps[0].searchVolume).toBe(800);
+    expect(gaps[0].competitors.map(c => c.domain)).toEqual(['rival.com', 'other.com']);
+  });
+
+  it('values the top positions as a ceiling above the expected traffic', () => {
+    const [gap] = findGapOpportunities(ours, competitors, DEFAULT_MODEL_CONFIG);
+    expect(gap.trafficPosition1).toBeCloseTo(800 * calculateCTR(1, DEFAULT_MODEL_CONFIG, true) / 100);
+    expect(gap.trafficPosition3).toBeLessThan(gap.trafficPosition1);
+    expect(gap.expectedTraffic).toBeGreaterThan(0);
+    expect(gap.expectedTraffic).toBeLessThan(gap.trafficPosition3);
+  });
+});
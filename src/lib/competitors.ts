@@ -0,0 +1,95 @@
+import { calculateCTR, effortScale, keepBestRanking } from './forecast';
+import { competitionScale, outcomePosition, transitionProbabilities } from './transitions';
+import { classifyKeyword } from './segments';
+import type { CompetitorRanking, KeywordData, ModelConfig } from '../types';
+
+export interface Competitor {
+  id: string;
+  domain: string;
+  keywords: KeywordData[];
+}
+
+export interface GapOpportunity {
+  keyword: string;
+  searchVolume: number;
+  // Competitors ranking for it, best first
+  competitors: CompetitorRanking[];
+  // What the top positions are worth, as a ceiling
+  trafficPosition3: number;
+  trafficPosition1: number;
+  // Traffic expected when starting from scratch, i.e. from the deepest transition bucket
+  expectedTraffic: number;
+}
+
+// Positions of every competitor per lowercased keyword, best first
+export const competitorIndex = (competitors: Competitor[]): Map<string, CompetitorRanking[]> => {
+  const index = new Map<string, CompetitorRanking[]>();
+  for (const competitor of competitors) {
+    for (const k of keepBestRanking(competitor.keywords)) {
+      const key = k.keyword.toLowerCase();
+      const ranking = { domain: competitor.domain, position: k.position, url: k.url };
+      const list = index.get(key);
+      if (list) list.push(ranking);
+      else index.set(key, [ranking]);
+    }
+  }
+  for (const list of index.values()) list.sort((a, b) => a.position - b.position);
+  return index;
+};
+
+export const withCompetitors = (keywords: KeywordData[], index: Map<string, CompetitorRanking[]>): KeywordData[] =>
+  index.size === 0 ? keywords : keywords.map(k => ({ ...k, competitors: index.get(k.keyword.toLowerCase()) }));
+
+export const competitorsAbove = (k: KeywordData): CompetitorRanking[] =>
+  (k.competitors ?? []).filter(c => c.position < k.position);
+
+// Net-new position a keyword we do not rank for starts from
+const UNRANKED_POSITION = 100;
+
+// Keywords competitors rank for within the filters and we don't rank for at all
+export const findGapOpportunities = (
+  keywords: KeywordData[],
+  competitors: Competitor[],
+  config: ModelConfig
+): GapOpportunity[] => {
+  const ours = new Set(keywords.map(k => k.keyword.toLowerCase()));
+  const gaps = new Map<string, { keyword: string; searchVolume: number; competitors: CompetitorRanking[] }>();
+  for (const competitor of competitors) {
+    for (const k of keepBestRanking(competitor.keywords)) {
+      const key = k.keyword.toLowerCase();
+      if (ours.has(key) || k.position > config.maxPosition || k.searchVolume < config.minSearchVolume) continue;
+      const ranking = { domain: competitor.domain, position: k.position, url: k.url };
+      const gap = gaps.get(key);
+      if (gap) {
+        gap.competitors.push(ranking);
+        gap.searchVolume = Math.max(gap.searchVolume, k.searchVolume);
+      } else {
+        gaps.set(key, { keyword: k.keyword, searchVolume: k.searchVolume, competitors: [ranking] });
+      }
+    }
+  }
+
+  return Array.from(gaps.values(), (gap): GapOpportunity => {
+    const segment = classifyKeyword(gap.keyword, config.segmentation);
+    const trafficAt = (position: number) => gap.searchVolume * calculateCTR(position, config, true, segment) / 100;
+    const rankings = gap.competitors.sort((a, b) => a.position - b.position);
+    const { probabilities } = transitionProbabilities(
+      config.transitions,
+      config.outcomes,
+      UNRANKED_POSITION,
+      effortScale(config.effort) * competitionScale(UNRANKED_POSITION, rankings, config.competition)
+    );
+    return {
+      keyword: gap.keyword,
+      searchVolume: gap.searchVolume,
+      competitors: rankings,
+      trafficPosition3: trafficAt(3),
+      trafficPosition1: trafficAt(1),
+      // Staying unranked brings nothing
+      expectedTraffic: config.outcomes.reduce(
+        (sum, outcome, i) => sum + probabilities[i] * trafficAt(outcomePosition(outcome, UNRANKED_POSITION)),
+        0
+      )
+    };
+  }).sort((a, b) => b.expectedTraffic - a.expectedTraffic);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { FIT_MAX_POSITION, fitCtrCurve, fitCtrCurves, gscRowsFromSource, InvalidGscFileError } from './ctrFit';
+import type { GscRow } from './ctrFit';
+import { DEFAULT_SEGMENTATION } from './segments';
+
+const row = (query: string, position: number, clicks: number, impressions: number): GscRow =>
+  ({ query, position, clicks, impressions });
+
+const isNonIncreasing = (values: number[]) => values.every((v, i) => i === 0 || v <= values[i - 1]);
+
+describe('gscRowsFromSource', () => {
+  it('reads a Search Console export with decimal commas', () => {
+    const rows = gscRowsFromSource([
+      { 'Top queries': 'running shoes', Clicks: '12', Impressions: '1 200', Position: '3,4' },
+      { 'Top queries': 'trail shoes', Clicks: '0', Impressions: '300', Position: '11,5' },
+      { 'Top queries': '', Clicks: '1', Impressions: '10', Position: '2' },
+      { 'Top queries': 'boots', Clicks: '0', Impressions: '0', Position: '5' }
+    ], ['Top queries', 'Clicks', 'Impressions', 'Position']);
+    expect(rows).toEqual([row('running shoes', 3.4, 12, 1200), row('trail shoes', 11.5, 0, 300)]);
+  });
+
+  it('rejects other exports', () => {
+    expect(() => gscRowsFromSource([], ['Keyword', 'Position', 'Search Volume'])).toThrow(InvalidGscFileError);
+  });
+});
+
+describe('fitCtrCurve', () => {
+  it('never increases with position, even when the data does', () => {
+    const fit = fitCtrCurve([
+      row('a', 1, 300, 1000),
+      row('b', 2, 100, 1000),
+      // Position 3 performs better than position 2 in this sample
+      row('c', 3, 150, 1000),
+      row('d', 5, 30, 1000),
+      row('e', 10, 5, 1000)
+    ]);
+    const values = Array.from({ length: FIT_MAX_POSITION }, (_, i) => fit.ctr[i + 1]);
+    expect(values).toHaveLength(FIT_MAX_POSITION);
+    expect(isNonIncreasing(values)).toBe(true);
+    expect(fit.ctr[2]).toBe(fit.ctr[3]);
+    expect(fit.ctr[1]).toBeGreaterThan(fit.ctr[2]);
+  });
+
+  it('pools rows by rounded position and follows well-sampled buckets', () => {
+    const fit = fitCtrCurve([row('a', 1.2, 4000, 10000), row('b', 0.9, 4000, 10000), row('c', 4, 500, 20000)]);
+    expect(fit.points.map(p => [p.position, p.impressions])).toEqual([[1, 20000], [4, 20000]]);
+    expect(fit.ctr[1]).toBeCloseTo(40, 0);
+    expect(fit).toMatchObject({ queries: 3, impressions: 40000, clicks: 8500 });
+  });
+
+  it('ignores positions beyond the fitted range and keeps values within bounds', () => {
+    const fit = fitCtrCurve([row('a', 1, 0, 500), row('b', 150, 10, 100)]);
+    expect(fit.points.map(p => p.position)).toEqual([1]);
+    expect(Math.min(...Object.values(fit.ctr))).toBeGreaterThanOrEqual(0.01);
+    expect(Math.max(...Object.values(fit.ctr))).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('fitCtrCurves', () => {
+  it('only fits segments with enough impressions and positions', () => {
+    const informational = [1, 2, 3].map(p => row(`how to run ${p}`, p, 600 / p, 3000));
+    const generic = [row('running shoes', 1, 300, 1000), row('trail shoes', 2, 100, 1000)];
+    const result = fitCtrCurves([...informational, ...generic], DEFAULT_SEGMENTATION);
+    expect(Object.keys(result.segments)).toEqual(['informational']);
+    expect(result.segments.informational?.queries).toBe(3);
+    expect(result.queries).toBe(5);
+  });
+});
@@ -0,0 +1,162 @@
+import { detectSchema } from './schemas';
+import { detectDecimalSeparator, parseNumber } from './importer';
+import { classifyKeyword } from './segments';
+import type { CtrTable, KeywordSegment, SegmentationConfig } from '../types';
+
+export interface GscRow {
+  query: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+}
+
+export interface CtrFitPoint {
+  position: number;
+  // Observed CTR in percent
+  ctr: number;
+  impressions: number;
+}
+
+export interface CtrFit {
+  ctr: CtrTable;
+  points: CtrFitPoint[];
+  queries: number;
+  impressions: number;
+  clicks: number;
+}
+
+export interface CtrFitResult extends CtrFit {
+  // Only segments with enough impressions get their own curve
+  segments: { [K in KeywordSegment]?: CtrFit };
+}
+
+export class InvalidGscFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidGscFileError';
+  }
+}
+
+export const FIT_MAX_POSITION = 100;
+// Impressions a bucket needs before its own CTR outweighs the fitted trend
+const PRIOR_IMPRESSIONS = 200;
+const MIN_SEGMENT_IMPRESSIONS = 5000;
+const MIN_SEGMENT_BUCKETS = 3;
+
+// Reads query, clicks, impressions and position from a GSC performance export
+export const gscRowsFromSource = (rows: Record<string, unknown>[], columns: string[]): GscRow[] => {
+  const { schema, mapping } = detectSchema(columns);
+  const { keyword, position, volume: impressions, currentTraffic: clicks } = mapping;
+  if ((schema && schema.id !== 'gsc') || !keyword || !position || !impressions || !clicks) {
+    throw new InvalidGscFileError('This is not a Search Console performance export with queries, clicks, impressions and position.');
+  }
+  const separator = (column: string) => detectDecimalSeparator(rows.map(r => r[column]));
+  const separators = { position: separator(position), impressions: separator(impressions), clicks: separator(clicks) };
+  return rows
+    .map(r => ({
+      query: String(r[keyword] ?? '').trim(),
+      clicks: parseNumber(r[clicks], separators.clicks),
+      impressions: parseNumber(r[impressions], separators.impressions),
+      position: parseNumber(r[position], separators.position)
+    }))
+    .filter(r => r.query && r.impressions > 0 && r.clicks >= 0 && r.position >= 1);
+};
+
+// Weighted pool-adjacent-violators: the closest non-increasing sequence
+const isotonicDecreasing = (values: number[], weights: number[]): number[] => {
+  const blocks: { value: number; weight: number; size: number }[] = [];
+  values.forEach((value, i) => {
+    blocks.push({ value, weight: weights[i], size: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].value < blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!;
+      const prev = blocks[blocks.length - 1];
+      const weight = prev.weight + last.weight;
+      prev.value = weight > 0 ? (prev.value * prev.weight + last.value * last.weight) / weight : (prev.value + last.value) / 2;
+      prev.weight = weight;
+      prev.size += last.size;
+    }
+  });
+  return blocks.flatMap(b => Array<number>(b.size).fill(b.value));
+};
+
+// Fits ctr = a * position^-b by weighted least squares in log-log space
+const fitPowerLaw = (points: CtrFitPoint[]): ((position: number) => number) => {
+  const usable = points.filter(p => p.ctr > 0);
+  if (usable.length < 2) {
+    const mean = usable[0]?.ctr ?? 1;
+    return position => mean / position;
+  }
+  let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (const p of usable) {
+    const w = Math.log1p(p.impressions);
+    const x = Math.log(p.position);
+    const y = Math.log(p.ctr);
+    sw += w; sx += w * x; sy += w * y; sxx += w * x * x; sxy += w * x * y;
+  }
+  const denominator = sw * sxx - sx * sx;
+  const slope = denominator !== 0 ? Math.min(0, (sw * sxy - sx * sy) / denominator) : -1;
+  const intercept = (sy - slope * sx) / sw;
+  return position => Math.exp(intercept + slope * Math.log(position));
+};
+
+// Observed CTR per rounded position, shrunk toward a power-law trend where
+// impressions are few, then forced to never increase with position
+export const fitCtrCurve = (rows: GscRow[]): CtrFit => {
+  const buckets = new Map<number, { clicks: number; impressions: number }>();
+  for (const r of rows) {
+    const position = Math.round(r.position);
+    if (position > FIT_MAX_POSITION) continue;
+    const bucket = buckets.get(position) ?? { clicks: 0, impressions: 0 };
+    bucket.clicks += r.clicks;
+    bucket.impressions += r.impressions;
+    buckets.set(position, bucket);
+  }
+  const points: CtrFitPoint[] = Array.from(buckets, ([position, b]) => ({
+    position,
+    ctr: (b.clicks / b.impressions) * 100,
+    impressions: b.impressions
+  })).sort((a, b) => a.position - b.position);
+
+  const trend = fitPowerLaw(points);
+  const positions = Array.from({ length: FIT_MAX_POSITION }, (_, i) => i + 1);
+  const observed = new Map(points.map(p => [p.position, p]));
+  const blended = positions.map(position => {
+    const point = observed.get(position);
+    const prior = trend(position);
+    if (!point) return prior;
+    return (point.ctr * point.impressions + prior * PRIOR_IMPRESSIONS) / (point.impressions + PRIOR_IMPRESSIONS);
+  });
+  const weights = positions.map(position => (observed.get(position)?.impressions ?? 0) + PRIOR_IMPRESSIONS);
+  const smoothed = isotonicDecreasing(blended, weights);
+
+  const ctr: CtrTable = {};
+  positions.forEach((position, i) => {
+    ctr[position] = Math.min(100, Math.max(0.01, Math.round(smoothed[i] * 100) / 100));
+  });
+  return {
+    ctr,
+    points,
+    queries: rows.length,
+    impressions: rows.reduce((sum, r) => sum + r.impressions, 0),
+    clicks: rows.reduce((sum, r) => sum + r.clicks, 0)
+  };
+};
+
+export const fitCtrCurves = (rows: GscRow[], segmentation: SegmentationConfig): CtrFitResult => {
+  const bySegment = new Map<KeywordSegment, GscRow[]>();
+  for (const r of rows) {
+    const segment = classifyKeyword(r.query, segmentation);
+    const list = bySegment.get(segment);
+    if (list) list.push(r);
+    else bySegment.set(segment, [r]);
+  }
+  const segments: CtrFitResult['segments'] = {};
+  for (const [segment, segmentRows] of bySegment) {
+    const impressions = segmentRows.reduce((sum, r) => sum + r.impressions, 0);
+    const buckets = new Set(segmentRows.map(r => Math.round(r.position))).size;
+    if (impressions >= MIN_SEGMENT_IMPRESSIONS && buckets >= MIN_SEGMENT_BUCKETS) {
+      segments[segment] = fitCtrCurve(segmentRows);
+    }
+  }
+  return { ...fitCtrCurve(rows), segments };
+};
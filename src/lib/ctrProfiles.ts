@@ -0,0 +1,62 @@
+import type { CtrTable } from '../types';
+import { DEFAULT_CTR_VALUES } from './forecast';
+
+export interface CtrProfile {
+  id: string;
+  name: string;
+  values: CtrTable;
+  builtIn?: boolean;
+}
+
+const curve = (values: number[]): CtrTable =>
+  Object.fromEntries(values.map((value, i) => [i + 1, value]));
+
+export const BUILT_IN_CTR_PROFILES: CtrProfile[] = [
+  { id: 'default', name: 'Industry average', values: DEFAULT_CTR_VALUES, builtIn: true },
+  {
+    id: 'brand-serp',
+    name: 'Brand SERP',
+    values: curve([50, 18, 9, 5.5, 4, 3, 2.4, 2, 1.7, 1.5, 1.2, 1.0, 0.9, 0.8, 0.7, 0.6, 0.55, 0.5, 0.45, 0.4]),
+    builtIn: true
+  },
+  {
+    id: 'mobile-ecommerce',
+    name: 'Mobile e-commerce',
+    values: curve([20, 11, 7.5, 5.5, 4.2, 3.3, 2.6, 2.1, 1.8, 1.5, 1.2, 1.0, 0.9, 0.8, 0.7, 0.6, 0.55, 0.5, 0.45, 0.4]),
+    builtIn: true
+  },
+  {
+    id: 'featured-snippet',
+    name: 'Featured-snippet heavy',
+    values: curve([19, 11, 8, 6, 4.6, 3.6, 2.9, 2.3, 1.9, 1.6, 1.3, 1.1, 1.0, 0.85, 0.75, 0.65, 0.6, 0.5, 0.45, 0.4]),
+    builtIn: true
+  }
+];
+
+const CUSTOM_PROFILES_KEY = 'semrush-traffic-gain:ctr-profiles';
+
+export const loadCustomCtrProfiles = (): CtrProfile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_PROFILES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeCustomCtrProfiles = (profiles: CtrProfile[]) => {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// Saving under an existing name replaces that profile
+export const saveCustomCtrProfile = (name: string, values: CtrTable): CtrProfile[] => {
+  const others = loadCustomCtrProfiles().filter(p => p.name !== name);
+  const profiles = [...others, { id: `custom-${Date.now().toString(36)}`, name, values }];
+  writeCustomCtrProfiles(profiles);
+  return profiles;
+};
+
+export const deleteCustomCtrProfile = (id: string): CtrProfile[] => {
+  const profiles = loadCustomCtrProfiles().filter(p => p.id !== id);
+  writeCustomCtrProfiles(profiles);
+  return profiles;
+};
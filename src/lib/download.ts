@@ -0,0 +1,31 @@
+// Some browsers (Safari, Firefox with large files) read the blob after click()
+// returns, so the URL is only revoked once the download has had time to start
+const REVOKE_DELAY_MS = 60_000;
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// "acme-shop-keyword-analysis-2026-03-14.xlsx", or without the prefix when there is no project or domain
+export const exportFileName = (label: string | null, extension: string, date = new Date()): string => {
+  const prefix = label ? slugify(label) : '';
+  return `${prefix ? `${prefix}-` : ''}keyword-analysis-${date.toISOString().slice(0, 10)}.${extension}`;
+};
+
+// Opens the page in a new window and asks the browser to print it, which also offers "Save as PDF"
+export const printHtml = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
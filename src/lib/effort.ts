@@ -0,0 +1,30 @@
+import { keywordKey } from './clustering';
+import type { EffortModel, KeywordData } from '../types';
+
+export const DEFAULT_EFFORT_MODEL: EffortModel = {
+  unit: 'hours',
+  base: 2,
+  perDifficulty: 0.1,
+  perPosition: 0.5,
+  defaultDifficulty: 30,
+  overrides: {}
+};
+
+// Manual estimate for a keyword key or page URL. Negative or non-numeric ones,
+// e.g. from an edited project file, are ignored so they never reach the roadmap
+export const effortOverride = (model: EffortModel, key: string | undefined): number | undefined => {
+  const override = key === undefined ? undefined : model.overrides[key];
+  return typeof override === 'number' && Number.isFinite(override) && override >= 0 ? override : undefined;
+};
+
+// Work needed to push a keyword into the top 3: a fixed base, plus its keyword
+// difficulty, plus the distance to position 3. A manual estimate for the keyword,
+// or else for its page, wins.
+export const estimateEffort = (keyword: KeywordData, model: EffortModel): number => {
+  const override = effortOverride(model, keywordKey(keyword)) ?? effortOverride(model, keyword.url);
+  if (override !== undefined) return override;
+  const difficulty = keyword.difficulty ?? model.defaultDifficulty;
+  const distance = Math.max(0, keyword.position - 3);
+  const effort = Math.round((model.base + difficulty * model.perDifficulty + distance * model.perPosition) * 10) / 10;
+  return Number.isFinite(effort) ? Math.max(0, effort) : 0;
+};
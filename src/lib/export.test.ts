@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import { buildWorkbook, keywordRows } from './export';
+import { DEFAULT_MODEL_CONFIG, processKeywords, summarizeKeywords } from './forecast';
+import { compareExports } from './comparison';
+import { keywordsCsv, reportJson } from './report';
+
+const keywords = processKeywords(
+  [
+    { keyword: 'running shoes', position: 8, searchVolume: 5000, url: 'https://example.com/shoes/running' },
+    { keyword: 'trail shoes', position: 15, searchVolume: 2000, url: 'https://example.com/shoes/trail' }
+  ],
+  DEFAULT_MODEL_CONFIG
+);
+const summary = summarizeKeywords(keywords);
+
+// Every default outcome relabelled the same
+const sameLabels = { ...DEFAULT_MODEL_CONFIG, outcomes: DEFAULT_MODEL_CONFIG.outcomes.map(o => ({ ...o, label: 'Top' })) };
+const sameLabelKeywords = processKeywords([{ keyword: 'running shoes', position: 8, searchVolume: 5000 }], sameLabels);
+
+const sheetRows = (wb: XLSX.WorkBook, name: string) => XLSX.utils.sheet_to_json<Record<string, unknown>>(wb.Sheets[name]);
+
+describe('keywordRows', () => {
+  it('has one column per ranking outcome', () => {
+    const [row] = keywordRows(keywords);
+    for (const outcome of DEFAULT_MODEL_CONFIG.outcomes) {
+      expect(row).toHaveProperty(`Traffic (${outcome.label})`);
+      expect(row).toHaveProperty(`Gain (${outcome.label})`);
+      expect(row).toHaveProperty(`Prob. (${outcome.label})`);
+    }
+  });
+
+  it('keeps outcomes with the same label in separate columns', () => {
+    const [row]: Record<string, unknown>[] = keywordRows(sameLabelKeywords);
+    const [keyword] = sameLabelKeywords;
+    expect(Object.keys(row).filter(h => h.startsWith('Traffic ('))).toEqual(['Traffic (Top)', 'Traffic (Top (2))', 'Traffic (Top (3))']);
+    expect(row['Gain (Top (3))']).toBe(Math.round(keyword.outcomes[2].gain * 100) / 100);
+    expect(row['Prob. (Top (2))']).toBe(Math.round(keyword.outcomes[1].probability * 10000) / 10000);
+    expect(keywordsCsv(sameLabelKeywords).split('\n')[0]).toContain('Prob. (Top (3))');
+  });
+
+  it('exports the values of every same-label outcome to CSV and JSON, rounded', () => {
+    const [keyword] = sameLabelKeywords;
+    const [csvRow] = Papa.parse<Record<string, string>>(keywordsCsv(sameLabelKeywords), { header: true }).data;
+    const [jsonRow] = JSON.parse(reportJson({
+      title: null,
+      processedKeywords: sameLabelKeywords,
+      summary: summarizeKeywords(sameLabelKeywords),
+      config: sameLabels
+    })).keywords;
+    ['Top', 'Top (2)', 'Top (3)'].forEach((label, i) => {
+      const outcome = keyword.outcomes[i];
+      const expected = {
+        [`Traffic (${label})`]: Math.round(outcome.traffic * 100) / 100,
+        [`Gain (${label})`]: Math.round(outcome.gain * 100) / 100,
+        [`Prob. (${label})`]: Math.round(outcome.probability * 10000) / 10000
+      };
+      for (const [header, value] of Object.entries(expected)) {
+        expect(Number(csvRow[header])).toBe(value);
+        expect(jsonRow[header]).toBe(value);
+      }
+    });
+  });
+});
+
+describe('buildWorkbook', () => {
+  it('exports the chart data next to the keywords', () => {
+    const wb = buildWorkbook(keywords, summary, DEFAULT_MODEL_CONFIG);
+    expect(wb.SheetNames).toEqual(expect.arrayContaining([
+      'Summary', 'Keyword Analysis', 'Top Opportunities', 'Current vs Expected', 'Position Distribution', 'CTR Curve'
+    ]));
+    expect(sheetRows(wb, 'Keyword Analysis')).toHaveLength(2);
+    expect(sheetRows(wb, 'Current vs Expected').map(r => r['Monthly Traffic'])).toEqual(summary.chartData.map(d => d.traffic));
+    expect(sheetRows(wb, 'CTR Curve')).toHaveLength(20);
+  });
+
+  it('only adds the optional sheets it has data for', () => {
+    const wb = buildWorkbook(keywords, summary, DEFAULT_MODEL_CONFIG);
+    expect(wb.SheetNames).not.toContain('Scenarios');
+    expect(wb.SheetNames).not.toContain('Roadmap');
+  });
+
+  it('numbers repeated outcome labels on the summary and backtest sheets', () => {
+    const baseline = [{ keyword: 'running shoes', position: 8, searchVolume: 5000 }];
+    const current = [{ keyword: 'running shoes', position: 2, searchVolume: 5000 }];
+    const wb = buildWorkbook(sameLabelKeywords, summarizeKeywords(sameLabelKeywords), sameLabels, {
+      comparison: compareExports(baseline, current, sameLabels)
+    });
+    const summaryRows = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets.Summary, { header: 1 });
+    expect(summaryRows).toContainEqual(['Transition Model', 'Stay', 'Top', 'Top (2)', 'Top (3)']);
+    const [backtest] = sheetRows(wb, 'Backtest');
+    expect(Object.keys(backtest)).toEqual(expect.arrayContaining(['Top (actual)', 'Top (2) (actual)', 'Top (3) (model)']));
+  });
+});
@@ -0,0 +1,405 @@
+import * as XLSX from 'xlsx';
+import type { ModelConfig, ProcessedKeyword } from '../types';
+import { ctrCurve } from './forecast';
+import { describeOutcome } from './transitions';
+import type { ForecastSummary } from './forecast';
+import type { ComparisonResult } from './comparison';
+import { groupByPage } from './pages';
+import type { PageGroup } from './pages';
+import type { KeywordCluster } from './clustering';
+import { SERP_FEATURES, serpFeatureBreakdown } from './serpFeatures';
+import type { Roadmap } from './prioritization';
+import type { Timeline } from './timeline';
+import type { ScenarioResult } from './scenarios';
+import type { CannibalizedKeyword } from './cannibalization';
+import { competitorsAbove } from './competitors';
+import type { GapOpportunity } from './competitors';
+
+// Optional analyses that get their own sheets when present
+export interface WorkbookExtras {
+  // Project name or domain, shown on the summary sheet
+  title?: string | null;
+  comparison?: ComparisonResult | null;
+  clusters?: KeywordCluster[];
+  roadmap?: Roadmap;
+  timeline?: Timeline;
+  scenarios?: ScenarioResult[];
+  cannibalization?: CannibalizedKeyword[];
+  gaps?: GapOpportunity[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+// Probabilities are 0-1 fractions shown as percentages with one decimal
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+const EFFORT_LABELS = ['Low', 'Medium', 'High'];
+
+const TOP_OPPORTUNITIES = 50;
+
+// Outcome labels are free text: repeated ones get a number so their columns
+// don't overwrite each other
+const uniqueLabels = (labels: string[]): string[] => {
+  const used = new Set<string>();
+  return labels.map(label => {
+    let unique = label;
+    for (let n = 2; used.has(unique); n++) unique = `${label} (${n})`;
+    used.add(unique);
+    return unique;
+  });
+};
+
+export const keywordRows = (processedKeywords: ProcessedKeyword[]) =>
+  processedKeywords.map(k => {
+    const labels = uniqueLabels(k.outcomes.map(o => o.label));
+    return {
+      Keyword: k.keyword,
+      URL: k.url ?? '',
+      Source: k.source ?? '',
+      Topic: k.cluster ?? '',
+      Segment: k.segment,
+      'SERP Features': (k.serpFeatures ?? []).map(f => SERP_FEATURES.find(s => s.id === f)?.label ?? f).join(', '),
+      'Current Position': k.position,
+      'Competitors Above': competitorsAbove(k).map(c => `${c.domain} (#${c.position})`).join(', '),
+      'Search Volume': k.searchVolume,
+      'Current Traffic': round2(k.estimatedCurrentTraffic),
+      ...Object.fromEntries(k.outcomes.map((o, i) => [`Traffic (${labels[i]})`, round2(o.traffic)])),
+      ...Object.fromEntries(k.outcomes.map((o, i) => [`Gain (${labels[i]})`, round2(o.gain)])),
+      'Prob. Stay': round4(k.probStay),
+      ...Object.fromEntries(k.outcomes.map((o, i) => [`Prob. (${labels[i]})`, round4(o.probability)])),
+      'Expected Traffic': round2(k.expectedTraffic),
+      'Expected Gain': round2(k.expectedGain),
+      'Traffic at Risk': round2(k.trafficAtRisk),
+      'Traffic Lost to SERP Features': round2(k.serpFeatureLoss),
+      'Current Conversions': round2(k.currentConversions),
+      'Expected Conversions': round2(k.expectedConversions),
+      'Current Revenue': round2(k.currentRevenue),
+      'Expected Revenue': round2(k.expectedRevenue),
+      'Revenue Gain': round2(k.revenueGain),
+      CPC: k.cpc ?? '',
+      'Current Paid Search Value': round2(k.currentPaidValue),
+      'Expected Paid Search Value': round2(k.expectedPaidValue),
+      'Keyword Difficulty': k.difficulty ?? '',
+      Effort: k.effortEstimate
+    };
+  });
+
+// Number formats and column widths by header; probabilities are stored as 0-1
+const formatFor = (header: string): string | null =>
+  header.startsWith('Prob.') ? '0.0%' :
+  ['Current Position', 'Search Volume', 'Keyword Difficulty'].includes(header) ? '#,##0' :
+  header === 'CPC' ? '#,##0.00' : null;
+
+// Formats numeric columns and adds an autofilter over the header row
+export const formatKeywordSheet = (ws: XLSX.WorkSheet) => {
+  if (!ws['!ref']) return ws;
+  const range = XLSX.utils.decode_range(ws['!ref']);
+  const widths: { wch: number }[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const header = String(ws[XLSX.utils.encode_cell({ r: range.s.r, c })]?.v ?? '');
+    const format = formatFor(header) ?? '#,##0.00';
+    widths.push({ wch: ['Keyword', 'URL', 'Topic', 'SERP Features', 'Competitors Above'].includes(header) ? 40 : Math.max(10, header.length + 2) });
+    for (let r = range.s.r + 1; r <= range.e.r; r++) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      if (cell?.t === 'n') cell.z = format;
+    }
+  }
+  ws['!cols'] = widths;
+  ws['!autofilter'] = { ref: ws['!ref'] };
+  return ws;
+};
+
+const keywordSheet = (processedKeywords: ProcessedKeyword[]) =>
+  formatKeywordSheet(XLSX.utils.json_to_sheet(keywordRows(processedKeywords)));
+
+// Totals first, then every assumption the forecast was computed with
+export const appendSummarySheet = (
+  wb: XLSX.WorkBook,
+  processedKeywords: ProcessedKeyword[],
+  summary: ForecastSummary,
+  config: ModelConfig,
+  title?: string | null
+) => {
+  const outcomeLabels = uniqueLabels(config.outcomes.map(o => o.label));
+  const totalLabels = uniqueLabels(summary.outcomeTotals.map(o => o.label));
+  const rows: (string | number)[][] = [
+    ['Keyword Traffic Forecast', title ?? ''],
+    ['Generated', new Date().toISOString().slice(0, 16).replace('T', ' ')],
+    ['Keywords', processedKeywords.length],
+    [],
+    ['Totals'],
+    ['Current Traffic', round2(summary.totalCurrentTraffic)],
+    ['Expected Traffic', round2(summary.totalExpectedTraffic)],
+    ['Expected Gain', round2(summary.totalExpectedGain)],
+    ['Traffic at Risk', round2(summary.totalTrafficAtRisk)],
+    ...summary.outcomeTotals.map((o, i) => [`${o.downside ? 'Exposure' : 'Potential'}: ${totalLabels[i]}`, round2(o.change)]),
+    ['Expected Conversions', round2(summary.totalExpectedConversions)],
+    [`Expected Revenue (${config.businessValue.currency})`, round2(summary.totalExpectedRevenue)],
+    [`Revenue Gain (${config.businessValue.currency})`, round2(summary.totalRevenueGain)],
+    [],
+    ['Assumptions'],
+    ['CTR Uplift (%)', config.upliftCtr],
+    ['Effort Level', EFFORT_LABELS[config.effort] ?? String(config.effort)],
+    ['Min Search Volume', config.minSearchVolume],
+    ['Max Position', config.maxPosition],
+    ['Sources', config.sources.length ? config.sources.join(', ') : 'All'],
+    ['Branded Keywords', config.segmentation.excludeBranded ? 'Excluded' : 'Included'],
+    ['Brand Terms', config.segmentation.brandTerms.join(', ')],
+    ['Conversion Rate (%)', config.businessValue.conversionRate],
+    [`Average Order Value (${config.businessValue.currency})`, config.businessValue.averageOrderValue],
+    [],
+    ['CTR Table', 'CTR (%)'],
+    ...ctrCurve(config).map(d => [`Position ${d.position}`, round2(d.base)]),
+    [],
+    ['Ranking Outcomes', 'Target'],
+    ...config.outcomes.map((o, i) => [outcomeLabels[i], describeOutcome(o)]),
+    [],
+    ['Transition Model', 'Stay', ...outcomeLabels],
+    ...config.transitions.map(b => [b.label, b.stay, ...config.outcomes.map(o => b.weights[o.id] ?? 0)])
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws['!cols'] = [{ wch: 32 }, { wch: 18 }, { wch: 14 }, { wch: 14 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(wb, ws, 'Summary');
+};
+
+export const appendTopOpportunitiesSheet = (wb: XLSX.WorkBook, processedKeywords: ProcessedKeyword[]) => {
+  const top = processedKeywords
+    .filter(k => k.expectedGain > 0)
+    .sort((a, b) => b.expectedGain - a.expectedGain)
+    .slice(0, TOP_OPPORTUNITIES);
+  XLSX.utils.book_append_sheet(wb, keywordSheet(top), 'Top Opportunities');
+};
+
+// The dashboard charts exported as their underlying data, one sheet per chart
+export const appendChartSheets = (wb: XLSX.WorkBook, summary: ForecastSummary, config: ModelConfig) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(summary.chartData.map(d => ({ Scenario: d.name, 'Monthly Traffic': d.traffic }))),
+    'Current vs Expected'
+  );
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(summary.positionChartData.map(d => ({ 'Position Range': d.name, Keywords: d.value }))),
+    'Position Distribution'
+  );
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(ctrCurve(config).map(d => ({
+      Position: d.position,
+      'Base CTR (%)': round2(d.base),
+      'Uplifted CTR (%)': round2(d.uplifted)
+    }))),
+    'CTR Curve'
+  );
+};
+
+const pageRows = (groups: PageGroup[], label: string) =>
+  groups.map(g => ({
+    [label]: g.key,
+    Keywords: g.keywords.length,
+    'Current Traffic': round2(g.currentTraffic),
+    'Expected Traffic': round2(g.expectedTraffic),
+    'Expected Gain': round2(g.expectedGain),
+    'Top Opportunities': g.topKeywords.map(k => k.keyword).join(', ')
+  }));
+
+export const appendPageSheets = (wb: XLSX.WorkBook, processedKeywords: ProcessedKeyword[]) => {
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(pageRows(groupByPage(processedKeywords, 'url'), 'URL')), 'Pages');
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(pageRows(groupByPage(processedKeywords, 'directory', 1), 'Subfolder')),
+    'Subfolders'
+  );
+};
+
+export const appendClusterSheet = (wb: XLSX.WorkBook, clusters: KeywordCluster[]) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(clusters.map(c => ({
+      Topic: c.name,
+      Keywords: c.keywords.length,
+      'Current Traffic': round2(c.currentTraffic),
+      'Expected Traffic': round2(c.expectedTraffic),
+      'Expected Gain': round2(c.expectedGain),
+      'Deduplicated Gain': round2(c.dedupedGain),
+      'Keyword List': c.keywords.map(k => k.keyword).join(', ')
+    }))),
+    'Topics'
+  );
+};
+
+export const appendSerpFeatureSheet = (wb: XLSX.WorkBook, processedKeywords: ProcessedKeyword[], config: ModelConfig) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(serpFeatureBreakdown(processedKeywords, config.serpFeatureMultipliers).map(i => ({
+      Feature: i.label,
+      Keywords: i.keywords,
+      'CTR Multiplier': config.serpFeatureMultipliers[i.feature] ?? 1,
+      'Traffic Lost': round2(i.lostTraffic)
+    }))),
+    'SERP Features'
+  );
+};
+
+export const appendRoadmapSheet = (wb: XLSX.WorkBook, roadmap: Roadmap) => {
+  let cumulativeEffort = 0;
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(roadmap.items.filter(item => item.selected).map((item, index) => {
+      cumulativeEffort += item.effort;
+      return {
+        Order: index + 1,
+        Item: item.label,
+        Keywords: item.keywords.length,
+        Effort: item.effort,
+        'Cumulative Effort': round2(cumulativeEffort),
+        'Expected Gain': round2(item.expectedGain),
+        'Revenue Gain': round2(item.revenueGain)
+      };
+    })),
+    'Roadmap'
+  );
+};
+
+export const appendCannibalizationSheet = (wb: XLSX.WorkBook, results: CannibalizedKeyword[]) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(results.map(r => ({
+      Keyword: r.keyword,
+      Source: r.source ?? '',
+      'Search Volume': r.searchVolume,
+      'Best URL': r.pages[0].url ?? '',
+      'Best Position': r.pages[0].position,
+      'Competing URLs': r.pages.slice(1).map(p => `${p.url ?? ''} (#${p.position})`).join(', '),
+      'Current Traffic': round2(r.currentTraffic),
+      'Double-Counted Gain': round2(r.duplicateGain),
+      'Consolidated Traffic': round2(r.consolidatedTraffic),
+      'Consolidation Gain': round2(r.consolidationGain)
+    }))),
+    'Cannibalization'
+  );
+};
+
+export const appendGapSheet = (wb: XLSX.WorkBook, gaps: GapOpportunity[]) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(gaps.map(g => ({
+      Keyword: g.keyword,
+      'Search Volume': g.searchVolume,
+      Competitors: g.competitors.map(c => `${c.domain} (#${c.position})`).join(', '),
+      'Best Competitor URL': g.competitors[0].url ?? '',
+      'Traffic at Position 3': round2(g.trafficPosition3),
+      'Traffic at Position 1': round2(g.trafficPosition1),
+      'Expected Traffic': round2(g.expectedTraffic)
+    }))),
+    'Content Gap'
+  );
+};
+
+export const appendTimelineSheets = (wb: XLSX.WorkBook, timeline: Timeline) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(timeline.months.map(m => ({
+      Month: m.month,
+      'Baseline Traffic': round2(m.baseline),
+      'Projected Traffic': round2(m.projected),
+      Gain: round2(m.gain)
+    }))),
+    'Timeline'
+  );
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(timeline.keywords.map(({ keyword, projected }) => ({
+      Keyword: keyword.keyword,
+      URL: keyword.url ?? '',
+      ...Object.fromEntries(timeline.months.map((m, i) => [m.month, round2(projected[i])]))
+    }))),
+    'Keyword Timeline'
+  );
+};
+
+// Sheet names are limited to 31 characters, without []:*?/\ and unique in the workbook
+const sheetName = (wb: XLSX.WorkBook, name: string): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let i = 2; wb.SheetNames.includes(candidate); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  return candidate;
+};
+
+// A summary of every scenario, then each scenario's keywords on its own sheet
+export const appendScenarioSheets = (wb: XLSX.WorkBook, scenarios: ScenarioResult[]) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(scenarios.map(s => ({
+      Scenario: s.name,
+      Keywords: s.keywords.length,
+      'Current Traffic': round2(s.summary.totalCurrentTraffic),
+      'Expected Traffic': round2(s.summary.totalExpectedTraffic),
+      'Expected Gain': round2(s.summary.totalExpectedGain),
+      'Traffic at Risk': round2(s.summary.totalTrafficAtRisk)
+    }))),
+    'Scenarios'
+  );
+  for (const s of scenarios) {
+    XLSX.utils.book_append_sheet(wb, keywordSheet(s.keywords), sheetName(wb, `Scenario - ${s.name}`));
+  }
+};
+
+export const appendComparisonSheets = (wb: XLSX.WorkBook, comparison: ComparisonResult) => {
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(comparison.rows.map(r => ({
+      Keyword: r.keyword,
+      URL: r.url ?? '',
+      Status: r.status,
+      'Baseline Position': r.baselinePosition ?? '',
+      'Current Position': r.currentPosition ?? '',
+      'Position Change': r.positionDelta ?? '',
+      'Baseline Traffic': round2(r.baselineTraffic),
+      'Current Traffic': round2(r.currentTraffic),
+      'Traffic Change': round2(r.trafficDelta),
+      'Forecast Traffic': round2(r.forecastTraffic),
+      'Actual - Forecast': r.status === 'new' ? '' : round2(r.forecastError)
+    }))),
+    'Comparison'
+  );
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.json_to_sheet(comparison.buckets.map(b => ({
+      'Baseline Position': b.label,
+      Keywords: b.keywords,
+      'Stay (actual)': round2(b.observed.stay * 100),
+      'Stay (model)': round2(b.predicted.stay * 100),
+      ...Object.fromEntries(uniqueLabels(comparison.outcomeLabels).flatMap((label, i) => [
+        [`${label} (actual)`, round2(b.observed.outcomes[i] * 100)],
+        [`${label} (model)`, round2(b.predicted.outcomes[i] * 100)]
+      ]))
+    }))),
+    'Backtest'
+  );
+};
+
+export const buildWorkbook = (
+  processedKeywords: ProcessedKeyword[],
+  summary: ForecastSummary,
+  config: ModelConfig,
+  extras: WorkbookExtras = {}
+): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  appendSummarySheet(wb, processedKeywords, summary, config, extras.title);
+  XLSX.utils.book_append_sheet(wb, keywordSheet(processedKeywords), 'Keyword Analysis');
+  appendTopOpportunitiesSheet(wb, processedKeywords);
+  appendChartSheets(wb, summary, config);
+  appendPageSheets(wb, processedKeywords);
+  if (processedKeywords.some(k => k.serpFeatures?.length)) appendSerpFeatureSheet(wb, processedKeywords, config);
+  if (extras.clusters) appendClusterSheet(wb, extras.clusters);
+  if (extras.cannibalization?.length) appendCannibalizationSheet(wb, extras.cannibalization);
+  if (extras.gaps?.length) appendGapSheet(wb, extras.gaps);
+  if (extras.timeline) appendTimelineSheets(wb, extras.timeline);
+  if (extras.roadmap) appendRoadmapSheet(wb, extras.roadmap);
+  if (extras.scenarios?.length) appendScenarioSheets(wb, extras.scenarios);
+  if (extras.comparison) appendComparisonSheets(wb, extras.comparison);
+  return wb;
+};
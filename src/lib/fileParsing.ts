@@ -0,0 +1,145 @@
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import type { ParseConfig } from 'papaparse';
+import { tagsFromFileName } from './sources';
+import type { ImportSource } from './sources';
+
+let nextSourceId = 0;
+
+const createSource = (
+  fileName: string,
+  rows: Record<string, unknown>[],
+  sheetName?: string,
+  included = true
+): ImportSource => ({
+  id: `source-${++nextSourceId}`,
+  fileName,
+  sheetName,
+  rows,
+  columns: Object.keys(rows[0] || {}),
+  rowCount: rows.length,
+  included,
+  tags: tagsFromFileName(fileName)
+});
+
+export class UnsupportedFileError extends Error {
+  constructor(readonly fileName: string) {
+    super(`Unsupported file type: ${fileName}`);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+// Bytes read so far of the file being parsed
+export type ParseProgressHandler = (loaded: number) => void;
+
+// Parses CSV text as it is decoded. Each chunk is cut after its last complete
+// record (a line break outside quotes) and the rest is carried over to the next
+// one; the header line and the detected format are reused for every block
+const createCsvParser = () => {
+  const rows: Record<string, unknown>[] = [];
+  let pending = '';
+  let inQuotes = false;
+  let header: string | null = null;
+  let headerEnd = -1;
+  let format: Pick<ParseConfig, 'delimiter' | 'newline'> = {};
+
+  const parseBlock = (block: string) => {
+    const result = Papa.parse<Record<string, unknown>>(header === null ? block : header + block, {
+      header: true,
+      skipEmptyLines: true,
+      ...format
+    });
+    for (const row of result.data) rows.push(row);
+    if (header === null) {
+      header = headerEnd >= 0 ? block.slice(0, headerEnd + 1) : block;
+      format = { delimiter: result.meta.delimiter, newline: result.meta.linebreak as ParseConfig['newline'] };
+    }
+  };
+
+  return {
+    push: (text: string) => {
+      const data = pending + text;
+      let end = -1;
+      for (let i = pending.length; i < data.length; i++) {
+        const c = data.charCodeAt(i);
+        // An escaped quote ("") toggles twice and leaves the state unchanged
+        if (c === 34) inQuotes = !inQuotes;
+        else if (c === 10 && !inQuotes) {
+          end = i;
+          if (header === null && headerEnd < 0 && data.slice(0, i).trim()) headerEnd = i;
+        }
+      }
+      if (end < 0) {
+        pending = data;
+        return;
+      }
+      parseBlock(data.slice(0, end + 1));
+      pending = data.slice(end + 1);
+    },
+    end: (): Record<string, unknown>[] => {
+      if (pending.trim()) parseBlock(pending);
+      pending = '';
+      return rows;
+    }
+  };
+};
+
+// The file is decoded as a stream rather than in byte slices, which would split
+// multibyte UTF-8 characters; progress follows the bytes read
+const parseCsv = async (file: File, onProgress?: ParseProgressHandler): Promise<ImportSource[]> => {
+  let loaded = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => {
+      loaded += chunk.byteLength;
+      onProgress?.(loaded);
+      controller.enqueue(chunk);
+    }
+  });
+  const reader = file.stream().pipeThrough(counter).pipeThrough(new TextDecoderStream()).getReader();
+  const parser = createCsvParser();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) parser.push(result.value);
+  return [createSource(file.name, parser.end())];
+};
+
+// Every non-empty sheet becomes a source; only the first one is included by default
+const workbookSources = (fileName: string, data: Uint8Array): ImportSource[] => {
+  const workbook = XLSX.read(data, { type: 'array' });
+  return workbook.SheetNames
+    .map(sheetName => ({
+      sheetName,
+      rows: XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName], { defval: '' })
+    }))
+    .filter(sheet => sheet.rows.length > 0)
+    .map((sheet, index) => createSource(fileName, sheet.rows, sheet.sheetName, index === 0));
+};
+
+const parseWorkbook = (file: File): Promise<ImportSource[]> =>
+  file.arrayBuffer().then(buffer => workbookSources(file.name, new Uint8Array(buffer)));
+
+const fileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase();
+
+export const readFileSources = (file: File, onProgress?: ParseProgressHandler): Promise<ImportSource[]> => {
+  const ext = fileExtension(file.name);
+  if (ext === 'csv') return parseCsv(file, onProgress);
+  if (ext === 'xlsx' || ext === 'xls') {
+    return parseWorkbook(file).then(sources => {
+      onProgress?.(file.size);
+      return sources;
+    });
+  }
+  return Promise.reject(new UnsupportedFileError(file.name));
+};
+
+// Same as readFileSources for file contents already in memory, e.g. read from disk by the CLI
+export const sourcesFromData = (fileName: string, data: Uint8Array): ImportSource[] => {
+  const ext = fileExtension(fileName);
+  if (ext === 'csv') {
+    const { data: rows } = Papa.parse<Record<string, unknown>>(new TextDecoder().decode(data), {
+      header: true,
+      skipEmptyLines: true
+    });
+    return [createSource(fileName, rows)];
+  }
+  if (ext === 'xlsx' || ext === 'xls') return workbookSources(fileName, data);
+  throw new UnsupportedFileError(fileName);
+};
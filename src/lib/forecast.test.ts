@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCTR, DEFAULT_CTR_VALUES, DEFAULT_MODEL_CONFIG, processKeyword, processKeywords, summarizeKeywords } from './forecast';
+import type { KeywordData } from '../types';
+
+const keyword = (overrides: Partial<KeywordData> = {}): KeywordData => ({
+  keyword: 'running shoes',
+  position: 8,
+  searchVolume: 1000,
+  ...overrides
+});
+
+describe('calculateCTR', () => {
+  it('uses 0.1% beyond position 20', () => {
+    expect(calculateCTR(21, DEFAULT_MODEL_CONFIG)).toBe(0.1);
+    expect(calculateCTR(45, DEFAULT_MODEL_CONFIG)).toBe(0.1);
+  });
+
+  it('falls back to the default curve for positions missing from the table', () => {
+    const ctrValues = { ...DEFAULT_CTR_VALUES };
+    delete ctrValues[5];
+    expect(calculateCTR(5, { ...DEFAULT_MODEL_CONFIG, ctrValues })).toBe(DEFAULT_CTR_VALUES[5]);
+  });
+
+  it('uses positions beyond 20 when the table has them', () => {
+    const ctrValues = { ...DEFAULT_CTR_VALUES, 25: 0.3 };
+    expect(calculateCTR(25, { ...DEFAULT_MODEL_CONFIG, ctrValues })).toBe(0.3);
+  });
+
+  it('rounds fractional positions', () => {
+    expect(calculateCTR(2.4, DEFAULT_MODEL_CONFIG)).toBe(DEFAULT_CTR_VALUES[2]);
+    expect(calculateCTR(0.6, DEFAULT_MODEL_CONFIG)).toBe(DEFAULT_CTR_VALUES[1]);
+  });
+
+  it('applies the uplift and caps at 100%', () => {
+    expect(calculateCTR(1, { ...DEFAULT_MODEL_CONFIG, upliftCtr: 10 }, true)).toBeCloseTo(28.5 * 1.1);
+    expect(calculateCTR(1, { ...DEFAULT_MODEL_CONFIG, upliftCtr: 400 }, true)).toBe(100);
+  });
+});
+
+describe('processKeyword', () => {
+  it('keeps a provided current traffic', () => {
+    const result = processKeyword(keyword({ currentTraffic: 42 }), DEFAULT_MODEL_CONFIG);
+    expect(result.estimatedCurrentTraffic).toBe(42);
+    expect(result.expectedGain).toBeCloseTo(result.expectedTraffic - 42);
+  });
+
+  it('estimates the current traffic when it is missing, 0 or NaN', () => {
+    const estimate = 1000 * DEFAULT_CTR_VALUES[8] / 100;
+    expect(processKeyword(keyword(), DEFAULT_MODEL_CONFIG).estimatedCurrentTraffic).toBeCloseTo(estimate);
+    expect(processKeyword(keyword({ currentTraffic: 0 }), DEFAULT_MODEL_CONFIG).estimatedCurrentTraffic).toBeCloseTo(estimate);
+    expect(processKeyword(keyword({ currentTraffic: NaN }), DEFAULT_MODEL_CONFIG).estimatedCurrentTraffic).toBeCloseTo(estimate);
+  });
+
+  it('forecasts no traffic for a zero volume keyword', () => {
+    const result = processKeyword(keyword({ searchVolume: 0 }), DEFAULT_MODEL_CONFIG);
+    expect(result.estimatedCurrentTraffic).toBe(0);
+    expect(result.expectedTraffic).toBe(0);
+    expect(result.expectedGain).toBe(0);
+  });
+
+  it('expects some gain for a keyword beyond position 20', () => {
+    const result = processKeyword(keyword({ position: 35 }), DEFAULT_MODEL_CONFIG);
+    expect(result.estimatedCurrentTraffic).toBeCloseTo(1);
+    expect(result.expectedGain).toBeGreaterThan(0);
+  });
+
+  it('has probabilities summing to 1', () => {
+    const result = processKeyword(keyword(), DEFAULT_MODEL_CONFIG);
+    const total = result.outcomes.reduce((sum, o) => sum + o.probability, result.probStay);
+    expect(total).toBeCloseTo(1);
+  });
+});
+
+describe('processKeywords', () => {
+  it('drops keywords below the volume or beyond the position filters', () => {
+    const result = processKeywords(
+      [keyword(), keyword({ keyword: 'a', searchVolume: 0 }), keyword({ keyword: 'b', position: 60 })],
+      DEFAULT_MODEL_CONFIG
+    );
+    expect(result.map(k => k.keyword)).toEqual(['running shoes']);
+  });
+});
+
+describe('summarizeKeywords', () => {
+  it('adds up the keyword totals', () => {
+    const processed = processKeywords([keyword(), keyword({ keyword: 'trail shoes', position: 15 })], DEFAULT_MODEL_CONFIG);
+    const summary = summarizeKeywords(processed);
+    expect(summary.totalCurrentTraffic).toBeCloseTo(processed[0].estimatedCurrentTraffic + processed[1].estimatedCurrentTraffic);
+    expect(summary.totalExpectedGain).toBeCloseTo(summary.totalExpectedTraffic - summary.totalCurrentTraffic);
+  });
+
+  it('handles no keywords', () => {
+    const summary = summarizeKeywords([]);
+    expect(summary.totalExpectedTraffic).toBe(0);
+    expect(summary.topOpportunities).toEqual([]);
+  });
+});
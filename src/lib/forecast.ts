@@ -0,0 +1,310 @@
+import { competitionScale, DEFAULT_COMPETITION, DEFAULT_OUTCOMES, DEFAULT_TRANSITION_MODEL, isDownsideOutcome, outcomePosition, transitionProbabilities } from './transitions';
+import { UNTAGGED_SOURCE_LABEL } from './sources';
+import { classifyKeyword, DEFAULT_SEGMENTATION } from './segments';
+import { DEFAULT_SERP_FEATURE_MULTIPLIERS, serpFeatureFactor } from './serpFeatures';
+import { DEFAULT_BUSINESS_VALUE, valueRatesFor } from './businessValue';
+import { DEFAULT_EFFORT_MODEL, estimateEffort } from './effort';
+import { DEFAULT_TIMELINE } from './timeline';
+import type { CtrTable, KeywordData, KeywordSegment, ModelConfig, OutcomeForecast, ProcessedKeyword, SerpFeature } from '../types';
+
+// Default CTR values per position
+export const DEFAULT_CTR_VALUES: CtrTable = {
+  1: 28.5,
+  2: 15.7,
+  3: 11.0,
+  4: 8.0,
+  5: 6.1,
+  6: 4.8,
+  7: 3.8,
+  8: 3.0,
+  9: 2.5,
+  10: 2.1,
+  11: 1.8,
+  12: 1.5,
+  13: 1.3,
+  14: 1.1,
+  15: 1.0,
+  16: 0.9,
+  17: 0.8,
+  18: 0.7,
+  19: 0.6,
+  20: 0.5
+};
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  ctrValues: DEFAULT_CTR_VALUES,
+  upliftCtr: 0,
+  effort: 1,
+  outcomes: DEFAULT_OUTCOMES,
+  transitions: DEFAULT_TRANSITION_MODEL,
+  segmentation: DEFAULT_SEGMENTATION,
+  serpFeatureMultipliers: DEFAULT_SERP_FEATURE_MULTIPLIERS,
+  businessValue: DEFAULT_BUSINESS_VALUE,
+  effortModel: DEFAULT_EFFORT_MODEL,
+  timeline: DEFAULT_TIMELINE,
+  competition: DEFAULT_COMPETITION,
+  minSearchVolume: 10,
+  maxPosition: 50,
+  sources: []
+};
+
+// Traffic change if every keyword an outcome applies to reached it: the upside
+// of improvements, the (negative) exposure of drops
+export interface OutcomeTotal {
+  id: string;
+  label: string;
+  downside: boolean;
+  change: number;
+}
+
+export interface ForecastSummary {
+  totalCurrentTraffic: number;
+  totalExpectedTraffic: number;
+  totalExpectedGain: number;
+  totalTrafficAtRisk: number;
+  outcomeTotals: OutcomeTotal[];
+  totalCurrentConversions: number;
+  totalExpectedConversions: number;
+  totalCurrentRevenue: number;
+  totalExpectedRevenue: number;
+  totalRevenueGain: number;
+  totalCurrentPaidValue: number;
+  totalExpectedPaidValue: number;
+  chartData: { name: string; traffic: number; fill: string }[];
+  positionChartData: { name: string; value: number; fill: string }[];
+  topOpportunities: { keyword: string; current: number; potential: number; gain: number }[];
+}
+
+type CtrConfig = Pick<ModelConfig, 'ctrValues' | 'upliftCtr'> &
+  Partial<Pick<ModelConfig, 'segmentation' | 'serpFeatureMultipliers'>>;
+
+// CTR in percent for a position, from the segment's curve when it has one and
+// reduced by the keyword's SERP features. Positions missing from the table fall
+// back to the default curve, or 0.1% beyond position 20 unless the table (e.g.
+// one fitted from Search Console) goes further
+export const calculateCTR = (
+  position: number,
+  config: CtrConfig,
+  applyUplift = false,
+  segment?: KeywordSegment,
+  serpFeatures?: SerpFeature[]
+): number => {
+  const table = (segment && config.segmentation?.segmentCtr[segment]) || config.ctrValues;
+  // Average positions from Search Console are fractional, the tables are per whole position
+  const rank = Math.max(1, Math.round(position));
+  const baseCtr = table[rank] || (rank > 20 ? 0.1 : DEFAULT_CTR_VALUES[rank] || 0.5);
+  const ctr = applyUplift ? baseCtr * (1 + config.upliftCtr / 100) : baseCtr;
+  return Math.min(100, ctr) * serpFeatureFactor(serpFeatures, config.serpFeatureMultipliers ?? {});
+};
+
+// Base vs uplifted CTR for the positions shown in the CTR editor
+export const ctrCurve = (config: CtrConfig, maxPosition = 20, segment?: KeywordSegment) =>
+  Array.from({ length: maxPosition }, (_, i) => ({
+    position: i + 1,
+    base: calculateCTR(i + 1, config, false, segment),
+    uplifted: calculateCTR(i + 1, config, true, segment)
+  }));
+
+export const effortScale = (effort: number): number =>
+  effort === 0 ? 0.85 : effort === 2 ? 1.15 : 1;
+
+export const filterKeywords = (
+  keywords: KeywordData[],
+  config: Pick<ModelConfig, 'minSearchVolume' | 'maxPosition' | 'sources' | 'segmentation'>
+): KeywordData[] =>
+  keywords.filter(k =>
+    k.searchVolume >= config.minSearchVolume &&
+    k.position <= config.maxPosition &&
+    (config.sources.length === 0 || config.sources.includes(k.source || UNTAGGED_SOURCE_LABEL)) &&
+    !(config.segmentation.excludeBranded && classifyKeyword(k.keyword, config.segmentation) === 'branded')
+  );
+
+export const processKeyword = (keyword: KeywordData, config: ModelConfig): ProcessedKeyword => {
+  const segment = classifyKeyword(keyword.keyword, config.segmentation);
+  const trafficAt = (position: number, applyUplift: boolean, features?: SerpFeature[]) =>
+    keyword.searchVolume * calculateCTR(position, config, applyUplift, segment, features) / 100;
+  const features = keyword.serpFeatures;
+
+  // A provided traffic of 0 or NaN (empty cell) falls back to the CTR estimate
+  const estimatedCurrentTraffic = keyword.currentTraffic || trafficAt(keyword.position, false, features);
+
+  const { probStay, probabilities } = transitionProbabilities(
+    config.transitions,
+    config.outcomes,
+    keyword.position,
+    effortScale(config.effort) * competitionScale(keyword.position, keyword.competitors, config.competition)
+  );
+
+  // The CTR uplift only applies to pages that were improved
+  const outcomes = config.outcomes.map((outcome, i): OutcomeForecast => {
+    const position = outcomePosition(outcome, keyword.position);
+    const traffic = trafficAt(position, position < keyword.position, features);
+    return {
+      id: outcome.id,
+      label: outcome.label,
+      downside: isDownsideOutcome(outcome),
+      position,
+      probability: probabilities[i],
+      traffic,
+      gain: traffic - estimatedCurrentTraffic
+    };
+  });
+
+  const expectedTraffic = outcomes.reduce((sum, o) => sum + o.probability * o.traffic, probStay * estimatedCurrentTraffic);
+  const expectedGain = expectedTraffic - estimatedCurrentTraffic;
+  const trafficAtRisk = outcomes.reduce((sum, o) => sum + (o.downside ? o.probability * Math.max(0, -o.gain) : 0), 0);
+
+  const expectedWithoutFeatures = features?.length
+    ? outcomes.reduce(
+        (sum, o) => sum + o.probability * trafficAt(o.position, o.position < keyword.position),
+        probStay * (keyword.currentTraffic || trafficAt(keyword.position, false))
+      )
+    : expectedTraffic;
+
+  const { conversionRate, averageOrderValue } = valueRatesFor(config.businessValue, keyword.url, segment);
+  const currentConversions = estimatedCurrentTraffic * conversionRate / 100;
+  const expectedConversions = expectedTraffic * conversionRate / 100;
+  const cpc = keyword.cpc || 0;
+
+  return {
+    ...keyword,
+    estimatedCurrentTraffic,
+    probStay,
+    outcomes,
+    expectedTraffic,
+    expectedGain,
+    trafficAtRisk,
+    segment,
+    serpFeatureLoss: expectedWithoutFeatures - expectedTraffic,
+    currentConversions,
+    expectedConversions,
+    currentRevenue: currentConversions * averageOrderValue,
+    expectedRevenue: expectedConversions * averageOrderValue,
+    revenueGain: (expectedConversions - currentConversions) * averageOrderValue,
+    currentPaidValue: estimatedCurrentTraffic * cpc,
+    expectedPaidValue: expectedTraffic * cpc,
+    effortEstimate: estimateEffort(keyword, config.effortModel)
+  };
+};
+
+// Rows of the same keyword in the same source compete with each other
+export const cannibalizationKey = (k: KeywordData): string => `${k.source ?? ''}|${k.keyword.toLowerCase()}`;
+
+// Keeps one row per keyword: the best-ranking URL, or the one with more traffic on a tie
+export const keepBestRanking = (keywords: KeywordData[]): KeywordData[] => {
+  const best = new Map<string, KeywordData>();
+  for (const k of keywords) {
+    const key = cannibalizationKey(k);
+    const current = best.get(key);
+    if (
+      !current ||
+      k.position < current.position ||
+      (k.position === current.position && (k.currentTraffic ?? 0) > (current.currentTraffic ?? 0))
+    ) {
+      best.set(key, k);
+    }
+  }
+  const kept = new Set(best.values());
+  return keywords.filter(k => kept.has(k));
+};
+
+// A keyword ranking with several URLs is counted once, see cannibalization.ts
+export const processKeywords = (keywords: KeywordData[], config: ModelConfig): ProcessedKeyword[] =>
+  keepBestRanking(filterKeywords(keywords, config)).map(keyword => processKeyword(keyword, config));
+
+export const positionRange = (position: number): string =>
+  position <= 3 ? '1-3' :
+  position <= 10 ? '4-10' :
+  position <= 20 ? '11-20' :
+  position <= 50 ? '21-50' : '50+';
+
+export const summarizeKeywords = (processedKeywords: ProcessedKeyword[]): ForecastSummary => {
+  const totalCurrentTraffic = processedKeywords.reduce((sum, k) => sum + k.estimatedCurrentTraffic, 0);
+  const totalExpectedTraffic = processedKeywords.reduce((sum, k) => sum + k.expectedTraffic, 0);
+  const totalExpectedGain = totalExpectedTraffic - totalCurrentTraffic;
+  const total = (metric: (k: ProcessedKeyword) => number) => processedKeywords.reduce((sum, k) => sum + metric(k), 0);
+
+  // Outcomes that don't apply to a keyword (already better, or can't drop further) add nothing
+  const outcomeTotals = (processedKeywords[0]?.outcomes ?? []).map((outcome, i): OutcomeTotal => ({
+    id: outcome.id,
+    label: outcome.label,
+    downside: outcome.downside,
+    change: total(k => {
+      const gain = k.outcomes[i].gain;
+      return outcome.downside ? Math.min(0, gain) : Math.max(0, gain);
+    })
+  }));
+
+  // Chart data for traffic potential
+  const chartData = [
+    {
+      name: 'Current',
+      traffic: Math.round(totalCurrentTraffic),
+      fill: '#3B82F6'
+    },
+    {
+      name: 'Expected',
+      traffic: Math.round(totalExpectedTraffic),
+      fill: '#10B981'
+    }
+  ];
+
+  // Position distribution data
+  const positionDistribution = processedKeywords.reduce((acc, keyword) => {
+    const posRange = positionRange(keyword.position);
+    acc[posRange] = (acc[posRange] || 0) + 1;
+    return acc;
+  }, {} as { [key: string]: number });
+
+  const positionChartData = Object.entries(positionDistribution).map(
+    ([range, count]) => ({
+      name: `Position ${range}`,
+      value: count,
+      fill:
+        range === '1-3'
+          ? '#10B981'
+          : range === '4-10'
+          ? '#F59E0B'
+          : range === '11-20'
+          ? '#EF4444'
+          : '#6B7280'
+    })
+  );
+
+  // Top opportunities (highest potential gain)
+  const topOpportunities = processedKeywords
+    .filter(k => k.expectedGain > 0)
+    .sort((a, b) => b.expectedGain - a.expectedGain)
+    .slice(0, 10)
+    .map(k => ({
+      keyword:
+        k.keyword.length > 25 ? k.keyword.substring(0, 25) + '...' : k.keyword,
+      current: Math.round(k.estimatedCurrentTraffic),
+      potential: Math.round(k.expectedTraffic),
+      gain: Math.round(k.expectedGain)
+    }));
+
+  return {
+    totalCurrentTraffic,
+    totalExpectedTraffic,
+    totalExpectedGain,
+    totalTrafficAtRisk: total(k => k.trafficAtRisk),
+    outcomeTotals,
+    totalCurrentConversions: total(k => k.currentConversions),
+    totalExpectedConversions: total(k => k.expectedConversions),
+    totalCurrentRevenue: total(k => k.currentRevenue),
+    totalExpectedRevenue: total(k => k.expectedRevenue),
+    totalRevenueGain: total(k => k.revenueGain),
+    totalCurrentPaidValue: total(k => k.currentPaidValue),
+    totalExpectedPaidValue: total(k => k.expectedPaidValue),
+    chartData,
+    positionChartData,
+    topOpportunities
+  };
+};
+
+// Runs the whole model: filtering, per-keyword forecast and totals
+export const runForecast = (keywords: KeywordData[], config: ModelConfig) => {
+  const processed = processKeywords(keywords, config);
+  return { keywords: processed, summary: summarizeKeywords(processed) };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { detectDecimalSeparator, mapRows, mapSources, parseNumber, rejectedRowsCsv } from './importer';
+import { EMPTY_COLUMN_MAPPING } from './schemas';
+
+const mapping = { ...EMPTY_COLUMN_MAPPING, keyword: 'Keyword', position: 'Position', volume: 'Volume', url: 'URL', currentTraffic: 'Traffic' };
+
+describe('detectDecimalSeparator', () => {
+  it('detects a decimal comma', () => {
+    expect(detectDecimalSeparator(['3,5', '12', '1,25'])).toBe(',');
+  });
+
+  it('reads commas before groups of three digits as thousands separators', () => {
+    expect(detectDecimalSeparator(['1,234', '12,500', '900'])).toBe('.');
+    expect(detectDecimalSeparator(['1.234', '12.500'])).toBe(',');
+  });
+
+  it('uses the last separator when a value has both', () => {
+    expect(detectDecimalSeparator(['1.234,5'])).toBe(',');
+    expect(detectDecimalSeparator(['1,234.5'])).toBe('.');
+  });
+
+  it('defaults to a dot', () => {
+    expect(detectDecimalSeparator([1, 2, '3'])).toBe('.');
+  });
+});
+
+describe('parseNumber', () => {
+  it('parses locale-formatted numbers', () => {
+    expect(parseNumber('1 234,5', ',')).toBe(1234.5);
+    expect(parseNumber('1.234,5', ',')).toBe(1234.5);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('1 234')).toBe(1234);
+    expect(parseNumber('$1,234')).toBe(1234);
+    expect(parseNumber('12%')).toBe(12);
+    expect(parseNumber(7)).toBe(7);
+  });
+
+  it('returns NaN without digits', () => {
+    expect(parseNumber('n/a')).toBeNaN();
+    expect(parseNumber('')).toBeNaN();
+    expect(parseNumber(undefined)).toBeNaN();
+  });
+});
+
+describe('mapRows', () => {
+  it('reports every dropped row with its reason', () => {
+    const { keywords, report } = mapRows([
+      { Keyword: 'running shoes', Position: '3', Volume: '1000' },
+      { Keyword: '', Position: '1', Volume: '10' },
+      { Keyword: 'trail', Position: 'abc', Volume: '10' },
+      { Keyword: 'boots', Position: '120', Volume: '10' },
+      { Keyword: 'laces', Position: '4', Volume: '0' }
+    ], mapping);
+    expect(keywords.map(k => k.keyword)).toEqual(['running shoes']);
+    expect(report.counts).toMatchObject({ 'missing-keyword': 1, 'invalid-number': 1, 'out-of-range-position': 1, 'zero-volume': 1 });
+    expect(report.rejected.map(r => r.rowNumber)).toEqual([3, 4, 5, 6]);
+  });
+
+  it('keeps the best position of duplicate keyword + URL rows', () => {
+    const { keywords, report } = mapRows([
+      { Keyword: 'Shoes', Position: '8', Volume: '100', URL: '/a' },
+      { Keyword: 'shoes', Position: '3', Volume: '100', URL: '/a' },
+      { Keyword: 'shoes', Position: '5', Volume: '100', URL: '/b' }
+    ], mapping);
+    expect(keywords.map(k => [k.position, k.url])).toEqual([[3, '/a'], [5, '/b']]);
+    expect(report.rejected).toHaveLength(1);
+    expect(report.rejected[0].rowNumber).toBe(2);
+  });
+
+  it('parses decimal commas per column and keeps an empty traffic undefined', () => {
+    const { keywords, report } = mapRows([
+      { Keyword: 'chaussures', Position: '3,5', Volume: '1.200', Traffic: '' },
+      { Keyword: 'bottes', Position: '12,25', Volume: '900', Traffic: '4,5' }
+    ], mapping);
+    expect(report.decimalSeparators.position).toBe(',');
+    expect(keywords[0]).toMatchObject({ position: 3.5, searchVolume: 1200, currentTraffic: undefined });
+    expect(keywords[1]).toMatchObject({ position: 12.25, currentTraffic: 4.5 });
+  });
+
+  it('honours a forced decimal separator', () => {
+    const { keywords } = mapRows([{ Keyword: 'shoes', Position: '1,500', Volume: '10' }], mapping, { decimalSeparator: ',' });
+    expect(keywords[0].position).toBe(1.5);
+  });
+});
+
+describe('mapSources', () => {
+  it('tags keywords with their source and keeps the same keyword from different sources', () => {
+    const { keywords, report } = mapSources([
+      { file: 'fr.csv', label: 'FR', rows: [{ Keyword: 'shoes', Position: '3', Volume: '10' }] },
+      { file: 'de.csv', label: 'DE', rows: [{ Keyword: 'shoes', Position: '5', Volume: '10' }, { Keyword: '', Position: '1', Volume: '1' }] }
+    ], mapping);
+    expect(keywords.map(k => k.source)).toEqual(['FR', 'DE']);
+    expect(report.rejected[0].file).toBe('de.csv');
+    expect(rejectedRowsCsv(report)).toContain('de.csv,3,Empty keyword');
+  });
+});
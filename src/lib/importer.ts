@@ -0,0 +1,201 @@
+import Papa from 'papaparse';
+import { parseSerpFeatures } from './serpFeatures';
+import { parseTrends } from './timeline';
+import type { ColumnMapping, KeywordData } from '../types';
+
+export type DecimalSeparator = '.' | ',';
+
+export type DropReason = 'missing-keyword' | 'invalid-number' | 'out-of-range-position' | 'zero-volume' | 'duplicate';
+
+export const DROP_REASON_LABELS: { [K in DropReason]: string } = {
+  'missing-keyword': 'Empty keyword',
+  'invalid-number': 'Bad number',
+  'out-of-range-position': 'Position outside 1–100',
+  'zero-volume': 'Zero or negative volume',
+  duplicate: 'Duplicate keyword + URL'
+};
+
+export interface RejectedRow {
+  // File (and sheet) the row came from, when several were imported
+  file?: string;
+  // 1-based row number as seen in a spreadsheet, header being row 1
+  rowNumber: number;
+  reason: DropReason;
+  detail: string;
+  row: Record<string, unknown>;
+}
+
+export interface ImportReport {
+  totalRows: number;
+  imported: number;
+  rejected: RejectedRow[];
+  counts: { [K in DropReason]: number };
+  decimalSeparators: { position: DecimalSeparator; volume: DecimalSeparator; currentTraffic?: DecimalSeparator; cpc?: DecimalSeparator };
+}
+
+// Rows of one file or sheet, with the source label they are tagged with
+export interface RawSource {
+  file?: string;
+  label?: string;
+  rows: Record<string, unknown>[];
+}
+
+export interface MapRowsOptions {
+  // Forces the decimal separator instead of detecting it per column
+  decimalSeparator?: DecimalSeparator;
+}
+
+const SPACES = /[\s\u00a0\u202f']/g;
+
+// Guesses the decimal separator of a column from its string values. A separator
+// that only ever precedes groups of exactly three digits is a thousands separator.
+export const detectDecimalSeparator = (values: unknown[]): DecimalSeparator => {
+  let dotTails: string[] = [];
+  let commaTails: string[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const s = value.replace(SPACES, '');
+    const lastDot = s.lastIndexOf('.');
+    const lastComma = s.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      return lastComma > lastDot ? ',' : '.';
+    }
+    if (lastDot >= 0) dotTails = dotTails.concat(s.split('.').slice(1));
+    if (lastComma >= 0) commaTails = commaTails.concat(s.split(',').slice(1));
+  }
+  const groupsOfThree = (tails: string[]) => tails.every(t => /^\d{3}(\D|$)/.test(t));
+
+  if (commaTails.length > 0) return groupsOfThree(commaTails) ? '.' : ',';
+  if (dotTails.length > 0) return groupsOfThree(dotTails) ? ',' : '.';
+  return '.';
+};
+
+// Parses "1 234,5", "1.234,5", "1,234.5", "$1,234" or "12%" once the column's
+// decimal separator is known; anything without digits is NaN
+export const parseNumber = (val: unknown, decimalSeparator: DecimalSeparator = '.'): number => {
+  if (typeof val === 'number') return val;
+  let s = String(val ?? '').replace(SPACES, '');
+  s = decimalSeparator === ',' ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+  s = s.replace(/[^0-9.-]+/g, '');
+  if (!/\d/.test(s)) return NaN;
+  const num = parseFloat(s);
+  return isNaN(num) ? NaN : num;
+};
+
+const emptyCounts = (): ImportReport['counts'] => ({
+  'missing-keyword': 0,
+  'invalid-number': 0,
+  'out-of-range-position': 0,
+  'zero-volume': 0,
+  duplicate: 0
+});
+
+// Maps raw rows through the column mapping, validates them and dedupes on
+// source label + keyword + URL keeping the best position. Every dropped row is reported.
+export const mapSources = (
+  sources: RawSource[],
+  mapping: ColumnMapping,
+  options: MapRowsOptions = {}
+): { keywords: KeywordData[]; report: ImportReport } => {
+  const separatorFor = (column: string) =>
+    options.decimalSeparator ?? detectDecimalSeparator(sources.flatMap(s => s.rows.map(r => r[column])));
+  const decimalSeparators: ImportReport['decimalSeparators'] = {
+    position: separatorFor(mapping.position),
+    volume: separatorFor(mapping.volume),
+    currentTraffic: mapping.currentTraffic ? separatorFor(mapping.currentTraffic) : undefined,
+    cpc: mapping.cpc ? separatorFor(mapping.cpc) : undefined
+  };
+  const difficultySeparator = mapping.difficulty ? separatorFor(mapping.difficulty) : undefined;
+
+  const rejected: RejectedRow[] = [];
+  type Kept = { data: KeywordData; file?: string; rowNumber: number; row: Record<string, unknown> };
+  const deduped = new Map<string, Kept>();
+  const where = (kept: Kept) => (kept.file ? `${kept.file} row ${kept.rowNumber}` : `row ${kept.rowNumber}`);
+
+  for (const { file, label, rows } of sources) {
+    rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      const reject = (reason: DropReason, detail: string) => rejected.push({ file, rowNumber, reason, detail, row });
+
+      const keyword = String(row[mapping.keyword] ?? '').trim();
+      if (!keyword) return reject('missing-keyword', 'Keyword is empty');
+
+      const rawPosition = row[mapping.position];
+      const position = parseNumber(rawPosition, decimalSeparators.position);
+      if (isNaN(position)) return reject('invalid-number', `Position "${String(rawPosition ?? '')}" is not a number`);
+      if (position < 1 || position > 100) return reject('out-of-range-position', `Position ${position} is outside 1–100`);
+
+      const rawVolume = row[mapping.volume];
+      const searchVolume = parseNumber(rawVolume, decimalSeparators.volume);
+      if (isNaN(searchVolume)) return reject('invalid-number', `Search volume "${String(rawVolume ?? '')}" is not a number`);
+      if (searchVolume <= 0) return reject('zero-volume', `Search volume is ${searchVolume}`);
+
+      const url = mapping.url ? String(row[mapping.url] ?? '').trim() : undefined;
+      const traffic = mapping.currentTraffic ? parseNumber(row[mapping.currentTraffic], decimalSeparators.currentTraffic) : NaN;
+      const cpc = mapping.cpc ? parseNumber(row[mapping.cpc], decimalSeparators.cpc) : NaN;
+      const difficulty = mapping.difficulty ? parseNumber(row[mapping.difficulty], difficultySeparator) : NaN;
+      const data: KeywordData = {
+        keyword,
+        position,
+        searchVolume,
+        currentTraffic: isNaN(traffic) ? undefined : traffic,
+        url,
+        source: label || undefined,
+        serpFeatures: mapping.serpFeatures ? parseSerpFeatures(row[mapping.serpFeatures]) : undefined,
+        cpc: isNaN(cpc) ? undefined : cpc,
+        difficulty: isNaN(difficulty) ? undefined : Math.min(100, Math.max(0, difficulty)),
+        trends: mapping.trends ? parseTrends(row[mapping.trends]) : undefined
+      };
+
+      const current: Kept = { data, file, rowNumber, row };
+      const key = (label ? `${label.toLowerCase()}|` : '') + keyword.toLowerCase() + (url ? `|${url.toLowerCase()}` : '');
+      const existing = deduped.get(key);
+      if (!existing) {
+        deduped.set(key, current);
+      } else if (position < existing.data.position) {
+        rejected.push({
+          file: existing.file,
+          rowNumber: existing.rowNumber,
+          reason: 'duplicate',
+          detail: `Duplicate of ${where(current)}, which ranks better`,
+          row: existing.row
+        });
+        deduped.set(key, current);
+      } else {
+        reject('duplicate', `Duplicate of ${where(existing)}`);
+      }
+    });
+  }
+
+  const counts = emptyCounts();
+  rejected.forEach(r => counts[r.reason]++);
+  const keywords = Array.from(deduped.values()).map(d => d.data);
+
+  return {
+    keywords,
+    report: {
+      totalRows: sources.reduce((sum, s) => sum + s.rows.length, 0),
+      imported: keywords.length,
+      rejected,
+      counts,
+      decimalSeparators
+    }
+  };
+};
+
+export const mapRows = (
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  options: MapRowsOptions = {}
+) => mapSources([{ rows }], mapping, options);
+
+export const rejectedRowsCsv = (report: ImportReport): string =>
+  Papa.unparse(
+    report.rejected.map(r => ({
+      File: r.file ?? '',
+      Row: r.rowNumber,
+      Reason: DROP_REASON_LABELS[r.reason],
+      Detail: r.detail,
+      ...r.row
+    }))
+  );
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { directoryOf, groupByPage, NO_URL_LABEL } from './pages';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+
+describe('directoryOf', () => {
+  it('cuts the path at the given depth', () => {
+    expect(directoryOf('https://site.com/blog/2026/post', 1)).toBe('https://site.com/blog/');
+    expect(directoryOf('https://site.com/blog/2026/post', 2)).toBe('https://site.com/blog/2026/');
+    expect(directoryOf('https://site.com/blog/', 1)).toBe('https://site.com/blog/');
+    expect(directoryOf('https://site.com/page', 1)).toBe('https://site.com/');
+  });
+
+  it('groups relative URLs on their path', () => {
+    expect(directoryOf('/shop/shoes/trail', 1)).toBe('/shop/');
+  });
+});
+
+describe('groupByPage', () => {
+  const keywords = processKeywords([
+    { keyword: 'running shoes', position: 8, searchVolume: 5000, url: 'https://site.com/shoes/running' },
+    { keyword: 'best running shoes', position: 12, searchVolume: 1000, url: 'https://site.com/shoes/running' },
+    { keyword: 'trail shoes', position: 15, searchVolume: 2000, url: 'https://site.com/shoes/trail' },
+    { keyword: 'hiking boots', position: 6, searchVolume: 300 }
+  ], DEFAULT_MODEL_CONFIG);
+
+  it('adds up the keywords of each URL, largest gain first', () => {
+    const groups = groupByPage(keywords, 'url');
+    expect(groups.map(g => [g.key, g.keywords.length])).toEqual([
+      ['https://site.com/shoes/running', 2],
+      ['https://site.com/shoes/trail', 1],
+      [NO_URL_LABEL, 1]
+    ]);
+    const running = groups[0];
+    expect(running.expectedGain).toBeCloseTo(running.keywords[0].expectedGain + running.keywords[1].expectedGain);
+    expect(running.topKeywords[0].keyword).toBe('running shoes');
+  });
+
+  it('groups by subfolder', () => {
+    const groups = groupByPage(keywords, 'directory', 1);
+    expect(groups.find(g => g.key === 'https://site.com/shoes/')?.keywords).toHaveLength(3);
+  });
+});
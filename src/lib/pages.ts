@@ -0,0 +1,67 @@
+import type { ProcessedKeyword } from '../types';
+
+export type PageGrouping = 'url' | 'directory';
+
+export interface PageGroup {
+  key: string;
+  keywords: ProcessedKeyword[];
+  currentTraffic: number;
+  expectedTraffic: number;
+  expectedGain: number;
+  // Best opportunities on the page, by expected gain
+  topKeywords: ProcessedKeyword[];
+}
+
+export const NO_URL_LABEL = '(no URL)';
+
+const TOP_KEYWORDS = 3;
+
+// Folder of a URL cut at `depth` path segments, e.g. depth 1 of
+// https://site.com/blog/post -> https://site.com/blog/
+export const directoryOf = (url: string, depth: number): string => {
+  let origin = '';
+  let path = url;
+  try {
+    const parsed = new URL(url);
+    origin = parsed.origin;
+    path = parsed.pathname;
+  } catch {
+    // Relative or scheme-less URLs are grouped on their raw path
+  }
+  const segments = path.split('/').filter(Boolean);
+  // The last segment is the page itself unless the URL ends with a slash
+  const folders = path.endsWith('/') ? segments : segments.slice(0, -1);
+  const kept = folders.slice(0, depth);
+  return `${origin}/${kept.length ? kept.join('/') + '/' : ''}`;
+};
+
+export const pageKey = (keyword: ProcessedKeyword, grouping: PageGrouping, depth = 1): string => {
+  if (!keyword.url) return NO_URL_LABEL;
+  return grouping === 'url' ? keyword.url : directoryOf(keyword.url, depth);
+};
+
+export const groupByPage = (
+  processedKeywords: ProcessedKeyword[],
+  grouping: PageGrouping,
+  depth = 1
+): PageGroup[] => {
+  const groups = new Map<string, ProcessedKeyword[]>();
+  for (const k of processedKeywords) {
+    const key = pageKey(k, grouping, depth);
+    const list = groups.get(key);
+    if (list) list.push(k);
+    else groups.set(key, [k]);
+  }
+
+  return Array.from(groups, ([key, keywords]) => {
+    const byGain = [...keywords].sort((a, b) => b.expectedGain - a.expectedGain);
+    return {
+      key,
+      keywords: byGain,
+      currentTraffic: keywords.reduce((sum, k) => sum + k.estimatedCurrentTraffic, 0),
+      expectedTraffic: keywords.reduce((sum, k) => sum + k.expectedTraffic, 0),
+      expectedGain: keywords.reduce((sum, k) => sum + k.expectedGain, 0),
+      topKeywords: byGain.slice(0, TOP_KEYWORDS).filter(k => k.expectedGain > 0)
+    };
+  }).sort((a, b) => b.expectedGain - a.expectedGain);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoadmap, DEFAULT_ROADMAP_OPTIONS, knapsack } from './prioritization';
+import { DEFAULT_EFFORT_MODEL, estimateEffort } from './effort';
+import { keywordKey } from './clustering';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+import type { KeywordData } from '../types';
+
+describe('knapsack', () => {
+  it('finds the best combination within the capacity', () => {
+    // Greedy by ratio would take item 0 (6/1) then item 1 and miss the optimum of 1 + 2
+    expect(knapsack([1, 2, 3], [6, 10, 12], 5)).toEqual([false, true, true]);
+    expect(knapsack([5, 4, 3], [10, 40, 50], 7)).toEqual([false, true, true]);
+  });
+
+  it('picks nothing without capacity and everything that fits', () => {
+    expect(knapsack([1, 2], [5, 5], 0)).toEqual([false, false]);
+    expect(knapsack([1, 2], [5, 5], 10)).toEqual([true, true]);
+    expect(knapsack([], [], 10)).toEqual([]);
+  });
+});
+
+describe('estimateEffort', () => {
+  const keyword: KeywordData = { keyword: 'running shoes', position: 13, searchVolume: 1000, difficulty: 40 };
+
+  it('adds base, difficulty and distance to the top 3', () => {
+    expect(estimateEffort(keyword, DEFAULT_EFFORT_MODEL)).toBe(2 + 40 * 0.1 + 10 * 0.5);
+    expect(estimateEffort({ ...keyword, difficulty: undefined, position: 2 }, DEFAULT_EFFORT_MODEL)).toBe(2 + 30 * 0.1);
+  });
+
+  it('prefers a manual estimate', () => {
+    expect(estimateEffort(keyword, { ...DEFAULT_EFFORT_MODEL, overrides: { [keywordKey(keyword)]: 1 } })).toBe(1);
+  });
+
+  it('falls back to the estimate of the keyword\'s page', () => {
+    const onPage = { ...keyword, url: '/running' };
+    expect(estimateEffort(onPage, { ...DEFAULT_EFFORT_MODEL, overrides: { '/running': 4 } })).toBe(4);
+    expect(estimateEffort(onPage, { ...DEFAULT_EFFORT_MODEL, overrides: { '/running': 4, [keywordKey(onPage)]: 1 } })).toBe(1);
+  });
+
+  it.each([-5, NaN, Infinity])('ignores an override of %s', value => {
+    expect(estimateEffort(keyword, { ...DEFAULT_EFFORT_MODEL, overrides: { [keywordKey(keyword)]: value } }))
+      .toBe(estimateEffort(keyword, DEFAULT_EFFORT_MODEL));
+  });
+});
+
+describe('buildRoadmap', () => {
+  const keywords = processKeywords([
+    { keyword: 'running shoes', position: 8, searchVolume: 5000, url: '/running', difficulty: 60 },
+    { keyword: 'best running shoes', position: 12, searchVolume: 1000, url: '/running', difficulty: 30 },
+    { keyword: 'trail shoes', position: 15, searchVolume: 2000, url: '/trail', difficulty: 20 },
+    { keyword: 'hiking boots', position: 6, searchVolume: 800, url: '/boots', difficulty: 10 }
+  ], DEFAULT_MODEL_CONFIG);
+
+  it('never spends more than the budget', () => {
+    const roadmap = buildRoadmap(keywords, DEFAULT_EFFORT_MODEL, { ...DEFAULT_ROADMAP_OPTIONS, budget: 15 });
+    expect(roadmap.usedBudget).toBeLessThanOrEqual(15);
+    expect(roadmap.items.filter(i => i.selected).length).toBeGreaterThan(0);
+    expect(roadmap.selectedGain).toBeLessThanOrEqual(roadmap.possibleGain);
+    // Selected items come first
+    const firstUnselected = roadmap.items.findIndex(i => !i.selected);
+    expect(roadmap.items.slice(firstUnselected).every(i => !i.selected)).toBe(true);
+  });
+
+  it('selects everything with a large enough budget', () => {
+    const roadmap = buildRoadmap(keywords, DEFAULT_EFFORT_MODEL, { ...DEFAULT_ROADMAP_OPTIONS, budget: 1000 });
+    expect(roadmap.selectedGain).toBeCloseTo(roadmap.possibleGain);
+  });
+
+  it('costs a page as much as its hardest keyword', () => {
+    const roadmap = buildRoadmap(keywords, DEFAULT_EFFORT_MODEL, { ...DEFAULT_ROADMAP_OPTIONS, grouping: 'url' });
+    const running = roadmap.items.find(i => i.key === '/running');
+    expect(running?.keywords).toHaveLength(2);
+    expect(running?.effort).toBe(Math.max(...(running?.keywords ?? []).map(k => k.effortEstimate)));
+  });
+
+  it('keeps negative page overrides out of the budget', () => {
+    const model = { ...DEFAULT_EFFORT_MODEL, overrides: { '/running': -100, '/trail': NaN } };
+    const withOverrides = processKeywords(keywords, { ...DEFAULT_MODEL_CONFIG, effortModel: model });
+    const roadmap = buildRoadmap(withOverrides, model, { ...DEFAULT_ROADMAP_OPTIONS, grouping: 'url', budget: 15 });
+    expect(roadmap.items.every(i => i.effort >= 0 && !i.overridden)).toBe(true);
+    expect(roadmap.usedBudget).toBeGreaterThan(0);
+    expect(roadmap.usedBudget).toBeLessThanOrEqual(15);
+    expect(Number.isNaN(roadmap.selectedGain)).toBe(false);
+  });
+});
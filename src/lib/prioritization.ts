@@ -0,0 +1,130 @@
+import { keywordKey } from './clustering';
+import { effortOverride } from './effort';
+import type { EffortModel, ProcessedKeyword } from '../types';
+
+export type RoadmapGrouping = 'keyword' | 'url';
+export type RoadmapObjective = 'traffic' | 'revenue';
+
+export interface RoadmapOptions {
+  budget: number;
+  grouping: RoadmapGrouping;
+  objective: RoadmapObjective;
+}
+
+export interface RoadmapItem {
+  // Keyword key or page URL, also used for manual effort overrides
+  key: string;
+  label: string;
+  keywords: ProcessedKeyword[];
+  effort: number;
+  overridden: boolean;
+  expectedGain: number;
+  revenueGain: number;
+  selected: boolean;
+}
+
+export interface Roadmap {
+  // Selected items in the order to work on them, then the others
+  items: RoadmapItem[];
+  usedBudget: number;
+  selectedGain: number;
+  selectedRevenueGain: number;
+  // Gain of every item with a positive gain, whatever its effort
+  possibleGain: number;
+  possibleRevenueGain: number;
+}
+
+export const DEFAULT_ROADMAP_OPTIONS: RoadmapOptions = { budget: 100, grouping: 'keyword', objective: 'traffic' };
+
+// Largest number of cells in the knapsack table, to keep memory bounded
+const MAX_CELLS = 20_000_000;
+
+// 0/1 knapsack by dynamic programming on integer costs; returns the picked items
+export const knapsack = (costs: number[], values: number[], capacity: number): boolean[] => {
+  const n = costs.length;
+  const width = capacity + 1;
+  const best = new Float64Array(width);
+  const keep = new Uint8Array(n * width);
+  for (let i = 0; i < n; i++) {
+    const cost = costs[i];
+    for (let c = capacity; c >= cost; c--) {
+      const candidate = best[c - cost] + values[i];
+      if (candidate > best[c]) {
+        best[c] = candidate;
+        keep[i * width + c] = 1;
+      }
+    }
+  }
+  const picked = new Array<boolean>(n).fill(false);
+  let c = capacity;
+  for (let i = n - 1; i >= 0; i--) {
+    if (keep[i * width + c]) {
+      picked[i] = true;
+      c -= costs[i];
+    }
+  }
+  return picked;
+};
+
+const toItems = (processedKeywords: ProcessedKeyword[], model: EffortModel, grouping: RoadmapGrouping) => {
+  const groups = new Map<string, ProcessedKeyword[]>();
+  for (const k of processedKeywords) {
+    // Keywords without a URL stay on their own in the page view
+    const key = grouping === 'url' && k.url ? k.url : keywordKey(k);
+    const list = groups.get(key);
+    if (list) list.push(k);
+    else groups.set(key, [k]);
+  }
+  return Array.from(groups, ([key, keywords]): RoadmapItem => {
+    const override = effortOverride(model, key);
+    return {
+      key,
+      label: grouping === 'url' && keywords[0].url ? key : keywords[0].keyword,
+      keywords,
+      // One piece of work lifts every keyword of a page, so it costs as much as the hardest one
+      effort: override ?? Math.max(...keywords.map(k => k.effortEstimate)),
+      overridden: override !== undefined ||
+        keywords.some(k => (effortOverride(model, keywordKey(k)) ?? effortOverride(model, k.url)) !== undefined),
+      expectedGain: keywords.reduce((sum, k) => sum + k.expectedGain, 0),
+      revenueGain: keywords.reduce((sum, k) => sum + k.revenueGain, 0),
+      selected: false
+    };
+  });
+};
+
+// Picks the items that maximise the objective within the effort budget
+export const buildRoadmap = (
+  processedKeywords: ProcessedKeyword[],
+  model: EffortModel,
+  options: RoadmapOptions
+): Roadmap => {
+  const valueOf = (item: RoadmapItem) => (options.objective === 'revenue' ? item.revenueGain : item.expectedGain);
+  const items = toItems(processedKeywords, model, options.grouping);
+  const candidates = items.filter(item => valueOf(item) > 0 && item.effort <= options.budget);
+
+  // Efforts are rounded up to a step small enough for the budget, so the pick never overspends
+  const steps = Math.max(1, Math.min(2000, Math.floor(MAX_CELLS / Math.max(1, candidates.length)) - 1));
+  const step = Math.max(0.5, options.budget / steps);
+  const capacity = Math.floor(options.budget / step);
+  const picked = knapsack(
+    candidates.map(item => Math.ceil(item.effort / step - 1e-9)),
+    candidates.map(valueOf),
+    capacity
+  );
+  candidates.forEach((item, i) => { item.selected = picked[i]; });
+
+  // Best value for effort first, so the roadmap starts with the quick wins
+  const ratio = (item: RoadmapItem) => valueOf(item) / Math.max(item.effort, 0.1);
+  const ordered = items.sort((a, b) => Number(b.selected) - Number(a.selected) || ratio(b) - ratio(a));
+  const selected = ordered.filter(item => item.selected);
+  const positive = items.filter(item => item.expectedGain > 0);
+
+  return {
+    items: ordered,
+    usedBudget: selected.reduce((sum, item) => sum + item.effort, 0),
+    selectedGain: selected.reduce((sum, item) => sum + item.expectedGain, 0),
+    selectedRevenueGain: selected.reduce((sum, item) => sum + item.revenueGain, 0),
+    possibleGain: positive.reduce((sum, item) => sum + item.expectedGain, 0),
+    possibleRevenueGain: items.filter(item => item.revenueGain > 0).reduce((sum, item) => sum + item.revenueGain, 0)
+  };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidProjectFileError, mergeProjectSettings, parseProjectJson, restoreProject, serializeProject } from './projects';
+import type { Project, ProjectSettings } from './projects';
+import { DEFAULT_MODEL_CONFIG } from './forecast';
+import { EMPTY_COLUMN_MAPPING } from './schemas';
+
+const defaults: ProjectSettings = { ...DEFAULT_MODEL_CONFIG, columnMapping: EMPTY_COLUMN_MAPPING, scenarios: [] };
+
+const keywords = [{ keyword: 'running shoes', position: 8, searchVolume: 1000 }];
+
+const projectFile = (settings: unknown, extra: object = {}) =>
+  JSON.stringify({ format: 'semrush-traffic-gain-project', version: 1, name: 'Shoes', settings, keywords, ...extra });
+
+describe('parseProjectJson', () => {
+  it('reads back an exported project', () => {
+    const project: Project = {
+      id: 'p1',
+      name: 'Shoes',
+      updatedAt: '2026-10-01T00:00:00.000Z',
+      keywordCount: 1,
+      settings: { ...defaults, upliftCtr: 12 },
+      keywords
+    };
+    const parsed = parseProjectJson(serializeProject(project), defaults);
+    expect(parsed.name).toBe('Shoes');
+    expect(parsed.id).not.toBe('p1');
+    expect(parsed.settings).toEqual(project.settings);
+    expect(parsed.keywords).toEqual(keywords);
+  });
+
+  it('fills in missing settings, nested ones included', () => {
+    const { settings } = parseProjectJson(projectFile({ segmentation: { brandTerms: ['acme'] }, timeline: { horizon: 6 } }), defaults);
+    expect(settings.segmentation).toEqual({ ...defaults.segmentation, brandTerms: ['acme'] });
+    expect(settings.timeline).toEqual({ ...defaults.timeline, horizon: 6 });
+    expect(settings.ctrValues).toEqual(defaults.ctrValues);
+  });
+
+  it('upgrades transitions saved with fixed position 3/2/1 fields', () => {
+    const legacy = [{ label: '1-100', minPosition: 1, maxPosition: 100, stay: 0.5, toPos3: 0.2, toPos2: 0.2, toPos1: 0.1 }];
+    const { settings } = parseProjectJson(projectFile({ transitions: legacy }), defaults);
+    expect(settings.transitions[0].weights).toEqual({ pos3: 0.2, pos2: 0.2, pos1: 0.1 });
+  });
+
+  it('fills in the config of saved scenarios', () => {
+    const scenarios = [{ id: 's1', name: 'Ambitious', createdAt: '', config: { upliftCtr: 20 } }];
+    const { settings } = parseProjectJson(projectFile({ scenarios }), defaults);
+    expect(settings.scenarios[0].config).toEqual({ ...DEFAULT_MODEL_CONFIG, upliftCtr: 20 });
+  });
+
+  it.each([
+    [{ transitions: [] }, 'transitions'],
+    [{ upliftCtr: 'high' }, 'upliftCtr'],
+    [{ ctrValues: { 1: null } }, 'ctrValues'],
+    [{ segmentation: { brandTerms: 'acme' } }, 'segmentation'],
+    [{ outcomes: [{ id: 'x', label: 'X', kind: 'jump', value: 1 }] }, 'outcomes'],
+    [{ scenarios: [{ id: 's1', name: 'A', config: { effort: null } }] }, 'scenarios[0].effort'],
+    [{ scenarios: {} }, 'scenarios']
+  ])('rejects malformed settings %j', (settings, field) => {
+    expect(() => parseProjectJson(projectFile(settings), defaults)).toThrow(InvalidProjectFileError);
+    expect(() => parseProjectJson(projectFile(settings), defaults)).toThrow(field);
+  });
+
+  it('rejects files that are not project exports', () => {
+    expect(() => parseProjectJson('{', defaults)).toThrow(InvalidProjectFileError);
+    expect(() => parseProjectJson(JSON.stringify({ keywords }), defaults)).toThrow('not a project export');
+    expect(() => parseProjectJson(projectFile({}, { version: 99 }), defaults)).toThrow('newer version');
+    expect(() => parseProjectJson(projectFile({}, { keywords: null }), defaults)).toThrow('no keyword list');
+    expect(() => parseProjectJson(projectFile([]), defaults)).toThrow('not an object');
+  });
+
+  it('skips malformed keyword rows', () => {
+    const project = parseProjectJson(projectFile({}, { keywords: [...keywords, { keyword: 'x' }, null] }), defaults);
+    expect(project.keywordCount).toBe(1);
+  });
+});
+
+describe('mergeProjectSettings', () => {
+  it('keeps the defaults for settings that are absent', () => {
+    expect(mergeProjectSettings({}, defaults)).toEqual(defaults);
+  });
+});
+
+describe('restoreProject', () => {
+  const saved = (settings: unknown, extra: object = {}) =>
+    ({ id: 'autosave', name: 'Last session', updatedAt: '', keywordCount: 1, settings, keywords, ...extra }) as Project;
+
+  it('upgrades a project saved by an older version', () => {
+    const { timeline, ...older } = defaults;
+    const project = restoreProject(saved({ ...older, segmentation: { brandTerms: ['acme'] } }), defaults);
+    expect(project.settings.timeline).toEqual(timeline);
+    expect(project.settings.segmentation).toEqual({ ...defaults.segmentation, brandTerms: ['acme'] });
+    expect(project.id).toBe('autosave');
+  });
+
+  it('rejects corrupted projects', () => {
+    expect(() => restoreProject(saved({ transitions: [] }), defaults)).toThrow('transitions');
+    expect(() => restoreProject(saved(null), defaults)).toThrow(InvalidProjectFileError);
+    expect(() => restoreProject(saved({}, { keywords: undefined }), defaults)).toThrow(InvalidProjectFileError);
+  });
+
+  it('skips malformed keyword rows', () => {
+    const project = restoreProject(saved({}, { keywords: [...keywords, { keyword: 'x' }] }), defaults);
+    expect(project.keywords).toEqual(keywords);
+    expect(project.keywordCount).toBe(1);
+  });
+});
@@ -0,0 +1,286 @@
+import type { Scenario } from './scenarios';
+import { DEFAULT_MODEL_CONFIG } from './forecast';
+import { upgradeTransitionModel } from './transitions';
+import type { ColumnMapping, KeywordData, ModelConfig } from '../types';
+
+export interface ProjectSettings extends ModelConfig {
+  columnMapping: ColumnMapping;
+  scenarios: Scenario[];
+}
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  updatedAt: string;
+  keywordCount: number;
+  settings: ProjectSettings;
+}
+
+export interface Project extends ProjectMeta {
+  keywords: KeywordData[];
+}
+
+export const AUTOSAVE_PROJECT_ID = 'autosave';
+
+const DB_NAME = 'semrush-traffic-gain';
+const DB_VERSION = 1;
+// Keyword rows live apart from the metadata so listing projects stays cheap
+const META_STORE = 'projects';
+const KEYWORD_STORE = 'keywords';
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(META_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(KEYWORD_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transaction = <T>(
+  mode: IDBTransactionMode,
+  run: (meta: IDBObjectStore, keywords: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> =>
+  openDb().then(db => new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction([META_STORE, KEYWORD_STORE], mode);
+    const request = run(tx.objectStore(META_STORE), tx.objectStore(KEYWORD_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  }));
+
+export const listProjects = (): Promise<ProjectMeta[]> =>
+  transaction<ProjectMeta[]>('readonly', meta => meta.getAll()).then(projects =>
+    (projects ?? [])
+      .filter(p => p.id !== AUTOSAVE_PROJECT_ID)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  );
+
+export const saveProject = (project: Project): Promise<void> => {
+  const { keywords, ...meta } = project;
+  return transaction('readwrite', (metaStore, keywordStore) => {
+    metaStore.put({ ...meta, keywordCount: keywords.length });
+    keywordStore.put(keywords, project.id);
+  }).then(() => undefined);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  let meta: ProjectMeta | undefined;
+  let keywords: KeywordData[] | undefined;
+  await transaction('readonly', (metaStore, keywordStore) => {
+    const metaRequest = metaStore.get(id);
+    metaRequest.onsuccess = () => { meta = metaRequest.result; };
+    const keywordRequest = keywordStore.get(id);
+    keywordRequest.onsuccess = () => { keywords = keywordRequest.result; };
+  });
+  return meta ? { ...meta, keywords: keywords ?? [] } : null;
+};
+
+export const deleteProject = (id: string): Promise<void> =>
+  transaction('readwrite', (metaStore, keywordStore) => {
+    metaStore.delete(id);
+    keywordStore.delete(id);
+  }).then(() => undefined);
+
+export const createProjectId = () => `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Portable JSON so a colleague can reproduce an analysis exactly
+const PROJECT_FORMAT = 'semrush-traffic-gain-project';
+const PROJECT_FORMAT_VERSION = 1;
+
+export const serializeProject = (project: Project): string =>
+  JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: project.name,
+    settings: project.settings,
+    keywords: project.keywords
+  }, null, 2);
+
+export class InvalidProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidProjectFileError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isNumberTable = (value: unknown) => isObject(value) && Object.values(value).every(isFiniteNumber);
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isArrayOf = (check: (item: Record<string, unknown>) => boolean) => (value: unknown) =>
+  Array.isArray(value) && value.every(item => isObject(item) && check(item));
+
+// What the model needs of each setting to run without crashing
+const MODEL_CONFIG_CHECKS: { [K in keyof ModelConfig]: (value: unknown) => boolean } = {
+  ctrValues: isNumberTable,
+  upliftCtr: isFiniteNumber,
+  effort: isFiniteNumber,
+  outcomes: isArrayOf(o =>
+    typeof o.id === 'string' && typeof o.label === 'string' && (o.kind === 'position' || o.kind === 'shift') && isFiniteNumber(o.value)
+  ),
+  transitions: value => Array.isArray(value) && value.length > 0 && isArrayOf(b =>
+    typeof b.label === 'string' && [b.minPosition, b.maxPosition, b.stay].every(isFiniteNumber) && isNumberTable(b.weights)
+  )(value),
+  segmentation: value =>
+    isObject(value) &&
+    isStringArray(value.brandTerms) &&
+    isArrayOf(r => typeof r.pattern === 'string' && typeof r.segment === 'string')(value.rules) &&
+    isObject(value.segmentCtr) && Object.values(value.segmentCtr).every(isNumberTable) &&
+    typeof value.excludeBranded === 'boolean',
+  serpFeatureMultipliers: isNumberTable,
+  businessValue: value =>
+    isObject(value) &&
+    isFiniteNumber(value.conversionRate) && isFiniteNumber(value.averageOrderValue) &&
+    typeof value.currency === 'string' &&
+    isArrayOf(r =>
+      (r.scope === 'url' || r.scope === 'segment') && typeof r.match === 'string' &&
+      isFiniteNumber(r.conversionRate) && isFiniteNumber(r.averageOrderValue)
+    )(value.rules),
+  effortModel: value =>
+    isObject(value) &&
+    (value.unit === 'hours' || value.unit === 'points') &&
+    [value.base, value.perDifficulty, value.perPosition, value.defaultDifficulty].every(isFiniteNumber) &&
+    isNumberTable(value.overrides),
+  timeline: value =>
+    isObject(value) &&
+    [value.horizon, value.delayMonths, value.rampMonths].every(isFiniteNumber) &&
+    typeof value.startMonth === 'string' &&
+    typeof value.trendsEndMonth === 'string' &&
+    (value.curve === 'linear' || value.curve === 'sCurve') &&
+    typeof value.seasonality === 'boolean',
+  competition: value =>
+    isObject(value) && typeof value.adjustProbabilities === 'boolean' && isFiniteNumber(value.penaltyPerCompetitor),
+  minSearchVolume: isFiniteNumber,
+  maxPosition: isFiniteNumber,
+  sources: isStringArray
+};
+
+// Settings merged one level deep, so a file that only sets segmentation.brandTerms
+// keeps the default segment rules and curves
+const mergeModelConfig = <T extends ModelConfig>(config: Record<string, unknown>, defaults: T): T => {
+  const merged = { ...defaults, ...config } as T;
+  const nested = <K extends 'segmentation' | 'businessValue' | 'effortModel' | 'timeline' | 'competition'>(key: K) =>
+    (isObject(config[key]) ? { ...defaults[key], ...config[key] } : merged[key]) as T[K];
+  return {
+    ...merged,
+    segmentation: nested('segmentation'),
+    businessValue: nested('businessValue'),
+    effortModel: nested('effortModel'),
+    timeline: nested('timeline'),
+    competition: nested('competition'),
+    // Files saved before outcomes were configurable carry fixed position 3/2/1 weights
+    transitions: Array.isArray(merged.transitions) && merged.transitions.every(isObject)
+      ? upgradeTransitionModel(merged.transitions)
+      : merged.transitions
+  };
+};
+
+// Settings from a file or an older save filled in with the defaults. Scenario
+// configs fall back to the model defaults, like runScenario does
+export const mergeProjectSettings = (settings: Record<string, unknown>, defaults: ProjectSettings): ProjectSettings => {
+  const merged = mergeModelConfig(settings, defaults);
+  return {
+    ...merged,
+    columnMapping: isObject(settings.columnMapping)
+      ? { ...defaults.columnMapping, ...settings.columnMapping } as ColumnMapping
+      : merged.columnMapping,
+    scenarios: Array.isArray(merged.scenarios)
+      ? merged.scenarios.map((scenario: unknown) =>
+          isObject(scenario) && isObject(scenario.config)
+            ? { ...scenario, config: mergeModelConfig(scenario.config, DEFAULT_MODEL_CONFIG) } as Scenario
+            : scenario as Scenario
+        )
+      : merged.scenarios
+  };
+};
+
+const invalidModelConfig = (config: unknown, prefix = ''): string[] =>
+  (Object.keys(MODEL_CONFIG_CHECKS) as (keyof ModelConfig)[])
+    .filter(key => !isObject(config) || !MODEL_CONFIG_CHECKS[key](config[key]))
+    .map(key => prefix + key);
+
+// Names of the settings the model cannot run with, empty when all are valid
+export const invalidProjectSettings = (settings: ProjectSettings): string[] => [
+  ...invalidModelConfig(settings),
+  ...(isObject(settings.columnMapping) && Object.values(settings.columnMapping).every(v => v === undefined || typeof v === 'string')
+    ? []
+    : ['columnMapping']),
+  ...(Array.isArray(settings.scenarios)
+    ? settings.scenarios.flatMap((scenario: unknown, i) =>
+        isObject(scenario) && typeof scenario.id === 'string' && typeof scenario.name === 'string'
+          ? invalidModelConfig(scenario.config, `scenarios[${i}].`)
+          : [`scenarios[${i}]`]
+      )
+    : ['scenarios'])
+];
+
+// Settings missing from older projects fall back to the current defaults
+const checkedSettings = (settings: Record<string, unknown>, defaults: ProjectSettings): ProjectSettings => {
+  const merged = mergeProjectSettings(settings, defaults);
+  const invalid = invalidProjectSettings(merged);
+  if (invalid.length > 0) {
+    throw new InvalidProjectFileError(`The project has invalid settings: ${invalid.join(', ')}.`);
+  }
+  return merged;
+};
+
+const validKeywords = (keywords: unknown[]): KeywordData[] =>
+  (keywords as KeywordData[]).filter(k =>
+    k && typeof k.keyword === 'string' && typeof k.position === 'number' && typeof k.searchVolume === 'number'
+  );
+
+// Projects stored in this browser may predate the current settings, or be
+// corrupted: they get the same upgrade and checks as imported files
+export const restoreProject = (project: Project, defaults: ProjectSettings): Project => {
+  if (!isObject(project.settings) || !Array.isArray(project.keywords)) {
+    throw new InvalidProjectFileError('The saved project is incomplete.');
+  }
+  const keywords = validKeywords(project.keywords);
+  return { ...project, keywordCount: keywords.length, settings: checkedSettings(project.settings, defaults), keywords };
+};
+
+export const parseProjectJson = (text: string, defaults: ProjectSettings): Project => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new InvalidProjectFileError('The file is not valid JSON.');
+  }
+  const file = data as { format?: string; version?: number; name?: string; settings?: unknown; keywords?: unknown };
+  if (file?.format !== PROJECT_FORMAT) {
+    throw new InvalidProjectFileError('The file is not a project export.');
+  }
+  if ((file.version ?? 0) > PROJECT_FORMAT_VERSION) {
+    throw new InvalidProjectFileError('The project was exported by a newer version of the app.');
+  }
+  if (!Array.isArray(file.keywords)) {
+    throw new InvalidProjectFileError('The project has no keyword list.');
+  }
+  if (file.settings !== undefined && !isObject(file.settings)) {
+    throw new InvalidProjectFileError('The project settings are not an object.');
+  }
+  const settings = checkedSettings(file.settings ?? {}, defaults);
+  const keywords = validKeywords(file.keywords);
+  return {
+    id: createProjectId(),
+    name: file.name || 'Imported project',
+    updatedAt: new Date().toISOString(),
+    keywordCount: keywords.length,
+    settings,
+    keywords
+  };
+};
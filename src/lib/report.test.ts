@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import { buildHtmlReport, keywordsCsv, reportJson } from './report';
+import type { ReportContent } from './report';
+import { downloadFile, exportFileName, slugify } from './download';
+import { buildWorkbook } from './export';
+import { DEFAULT_MODEL_CONFIG, processKeywords, summarizeKeywords } from './forecast';
+import { applyTableView, DEFAULT_TABLE_VIEW } from './tableView';
+
+const processed = processKeywords([
+  { keyword: 'running shoes', position: 8, searchVolume: 5000 },
+  { keyword: 'trail <shoes>', position: 15, searchVolume: 2000 },
+  { keyword: 'hiking boots', position: 6, searchVolume: 800 }
+], DEFAULT_MODEL_CONFIG);
+
+const content: ReportContent = {
+  title: 'Acme Shop',
+  processedKeywords: processed,
+  summary: summarizeKeywords(processed),
+  config: DEFAULT_MODEL_CONFIG
+};
+
+describe('exportFileName', () => {
+  it('prefixes the slugified project name', () => {
+    const date = new Date('2026-03-14T10:00:00Z');
+    expect(exportFileName('Acme Shop!', 'xlsx', date)).toBe('acme-shop-keyword-analysis-2026-03-14.xlsx');
+    expect(exportFileName(null, 'csv', date)).toBe('keyword-analysis-2026-03-14.csv');
+    expect(slugify('--Ça va--')).toBe('a-va');
+  });
+});
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the blob URL alive until the download has started', () => {
+    vi.useFakeTimers();
+    const link = { href: '', download: '', click: vi.fn() };
+    vi.stubGlobal('document', { createElement: () => link });
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:report');
+    const revoke = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+
+    downloadFile('a,b', 'report.csv', 'text/csv');
+    expect(link).toMatchObject({ href: 'blob:report', download: 'report.csv' });
+    expect(link.click).toHaveBeenCalled();
+    expect(revoke).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith('blob:report');
+  });
+});
+
+describe('keywordsCsv', () => {
+  it('has a header and one line per keyword', () => {
+    const lines = keywordsCsv(processed).trim().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[0].startsWith('Keyword,URL')).toBe(true);
+  });
+
+  it('rounds the probabilities like the other metrics', () => {
+    const [row] = Papa.parse<Record<string, string>>(keywordsCsv(processed), { header: true }).data;
+    const [keyword] = processed;
+    const round4 = (n: number) => Math.round(n * 10000) / 10000;
+    expect(Number(row['Prob. Stay'])).toBe(round4(keyword.probStay));
+    keyword.outcomes.forEach(o => expect(Number(row[`Prob. (${o.label})`])).toBe(round4(o.probability)));
+    const probabilities = Object.keys(row).filter(h => h.startsWith('Prob.')).map(h => row[h]);
+    expect(probabilities.every(value => /^\d(\.\d{1,4})?$/.test(value))).toBe(true);
+  });
+});
+
+describe('reportJson', () => {
+  it('keeps the totals, assumptions and keywords', () => {
+    const json = JSON.parse(reportJson(content));
+    expect(json.title).toBe('Acme Shop');
+    expect(json.totals.totalExpectedTraffic).toBeCloseTo(content.summary.totalExpectedTraffic);
+    expect(json.totals).not.toHaveProperty('chartData');
+    expect(json.assumptions.upliftCtr).toBe(0);
+    expect(json.keywords).toHaveLength(3);
+    expect(json.keywords[0]['Prob. Stay']).toBe(Math.round(processed[0].probStay * 10000) / 10000);
+  });
+});
+
+describe('buildHtmlReport', () => {
+  it('escapes keywords and shows the totals', () => {
+    const html = buildHtmlReport(content);
+    expect(html).toContain('Acme Shop');
+    expect(html).toContain('trail &lt;shoes&gt;');
+    expect(html).not.toContain('<shoes>');
+    expect(html).toContain(Math.round(content.summary.totalExpectedTraffic).toLocaleString());
+  });
+});
+
+describe('summary sheet', () => {
+  it('matches the exported rows when they are filtered', () => {
+    const rows = applyTableView(processed, { ...DEFAULT_TABLE_VIEW, search: 'shoes' });
+    const wb = buildWorkbook(rows, summarizeKeywords(rows), DEFAULT_MODEL_CONFIG);
+    const summary = XLSX.utils.sheet_to_json<(string | number)[]>(wb.Sheets.Summary, { header: 1 });
+    const value = (label: string) => summary.find(row => row[0] === label)?.[1];
+    const exported = XLSX.utils.sheet_to_json<Record<string, number>>(wb.Sheets['Keyword Analysis']);
+    expect(value('Keywords')).toBe(2);
+    expect(value('Current Traffic')).toBeCloseTo(exported.reduce((sum, r) => sum + r['Current Traffic'], 0), 1);
+  });
+});
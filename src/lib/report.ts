@@ -0,0 +1,145 @@
+import Papa from 'papaparse';
+import { keywordRows } from './export';
+import { formatMoney } from './businessValue';
+import type { ForecastSummary } from './forecast';
+import type { KeywordCluster } from './clustering';
+import type { Timeline } from './timeline';
+import type { ModelConfig, ProcessedKeyword } from '../types';
+
+export interface ReportContent {
+  title: string | null;
+  processedKeywords: ProcessedKeyword[];
+  summary: ForecastSummary;
+  config: ModelConfig;
+  clusters?: KeywordCluster[];
+  timeline?: Timeline;
+}
+
+const REPORT_OPPORTUNITIES = 25;
+const REPORT_TOPICS = 10;
+
+export const keywordsCsv = (processedKeywords: ProcessedKeyword[]): string => Papa.unparse(keywordRows(processedKeywords));
+
+export const reportJson = ({ title, processedKeywords, summary, config }: ReportContent): string => {
+  // Chart series are left out, only the totals are kept
+  const totals = Object.fromEntries(Object.entries(summary).filter(([key]) => key.startsWith('total')));
+  return JSON.stringify(
+    { title, generatedAt: new Date().toISOString(), assumptions: config, totals, outcomes: summary.outcomeTotals, keywords: keywordRows(processedKeywords) },
+    null,
+    2
+  );
+};
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] ?? c);
+
+const n = (value: number) => Math.round(value).toLocaleString();
+
+// Gains can turn negative once drops are modelled
+const signed = (value: number) => `${value > 0 ? '+' : ''}${n(value)}`;
+
+const table = (headers: string[], rows: (string | number)[][]) =>
+  `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('')}</tbody></table>`;
+
+const STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111827; margin: 40px; }
+  h1 { margin-bottom: 4px; }
+  h2 { margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 16px; margin-top: 24px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; }
+  .card strong { display: block; font-size: 24px; margin-top: 4px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f9fafb; color: #6b7280; text-transform: uppercase; font-size: 11px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+// A self-contained page for clients: key figures, assumptions and the best opportunities
+export const buildHtmlReport = ({ title, processedKeywords, summary, config, clusters, timeline }: ReportContent): string => {
+  const currency = config.businessValue.currency;
+  const hasRevenue = summary.totalExpectedRevenue > 0;
+  const opportunities = processedKeywords
+    .filter(k => k.expectedGain > 0)
+    .sort((a, b) => b.expectedGain - a.expectedGain)
+    .slice(0, REPORT_OPPORTUNITIES);
+  const heading = title ? `Traffic Forecast — ${title}` : 'Traffic Forecast';
+
+  const cards = [
+    ['Current traffic', n(summary.totalCurrentTraffic)],
+    ['Expected traffic', n(summary.totalExpectedTraffic)],
+    ['Expected gain', signed(summary.totalExpectedGain)],
+    hasRevenue
+      ? ['Revenue gain', `+${formatMoney(summary.totalRevenueGain, currency)}`]
+      : ['Traffic at risk', `-${n(summary.totalTrafficAtRisk)}`]
+  ];
+
+  const sections = [
+    `<h1>${escapeHtml(heading)}</h1>`,
+    `<p class="muted">${processedKeywords.length.toLocaleString()} keywords · generated ${escapeHtml(new Date().toLocaleDateString())}</p>`,
+    `<div class="cards">${cards.map(([label, value]) => `<div class="card"><span class="muted">${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`).join('')}</div>`,
+    '<h2>Top opportunities</h2>',
+    table(
+      ['Keyword', 'URL', 'Position', 'Search volume', 'Current traffic', 'Expected traffic', 'Expected gain'],
+      opportunities.map(k => [k.keyword, k.url ?? '', k.position, k.searchVolume.toLocaleString(), n(k.estimatedCurrentTraffic), n(k.expectedTraffic), `+${n(k.expectedGain)}`])
+    )
+  ];
+
+  if (clusters?.length) {
+    sections.push(
+      '<h2>Topics</h2>',
+      table(
+        ['Topic', 'Keywords', 'Current traffic', 'Deduplicated gain'],
+        clusters.slice(0, REPORT_TOPICS).map(c => [c.name, c.keywords.length, n(c.currentTraffic), signed(c.dedupedGain)])
+      )
+    );
+  }
+
+  if (timeline?.months.length) {
+    sections.push(
+      '<h2>Timeline</h2>',
+      table(
+        ['Month', 'Current rankings', 'Projected', 'Gain'],
+        timeline.months.map(m => [m.month, n(m.baseline), n(m.projected), signed(m.gain)])
+      )
+    );
+  }
+
+  sections.push(
+    '<h2>Assumptions</h2>',
+    table(
+      ['Parameter', 'Value'],
+      [
+        ['CTR uplift', `${config.upliftCtr}%`],
+        ['Effort level', ['Low', 'Medium', 'High'][config.effort] ?? config.effort],
+        ['Minimum search volume', config.minSearchVolume],
+        ['Maximum position', config.maxPosition],
+        ['Branded keywords', config.segmentation.excludeBranded ? 'Excluded' : 'Included'],
+        ...(hasRevenue
+          ? [
+              ['Conversion rate', `${config.businessValue.conversionRate}%`],
+              ['Average order value', formatMoney(config.businessValue.averageOrderValue, currency)]
+            ]
+          : []),
+        ...config.transitions.map(b => [
+          `Positions ${b.label}`,
+          config.outcomes.map(o => `${Math.round((b.weights[o.id] ?? 0) * 100)}% ${o.label}`).join(', ')
+        ])
+      ]
+    )
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(heading)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>`;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createScenario, runScenario, scenarioDeltas } from './scenarios';
+import { DEFAULT_MODEL_CONFIG, runForecast } from './forecast';
+import type { ModelConfig } from '../types';
+
+const keywords = [
+  { keyword: 'running shoes', position: 8, searchVolume: 5000 },
+  { keyword: 'trail shoes', position: 15, searchVolume: 2000 },
+  { keyword: 'shoe laces', position: 40, searchVolume: 50 }
+];
+
+describe('runScenario', () => {
+  it('forecasts with the scenario settings', () => {
+    const ambitious = createScenario('Ambitious', { ...DEFAULT_MODEL_CONFIG, upliftCtr: 20, effort: 2 });
+    const result = runScenario(keywords, ambitious);
+    expect(result.name).toBe('Ambitious');
+    expect(result.summary.totalExpectedGain).toBeGreaterThan(runForecast(keywords, DEFAULT_MODEL_CONFIG).summary.totalExpectedGain);
+  });
+
+  it('falls back to the defaults for settings saved before they existed', () => {
+    const config: Partial<ModelConfig> = { ...DEFAULT_MODEL_CONFIG, upliftCtr: 5 };
+    delete config.outcomes;
+    const legacy = createScenario('Old', config as ModelConfig);
+    expect(runScenario(keywords, legacy).keywords[0].outcomes).toHaveLength(DEFAULT_MODEL_CONFIG.outcomes.length);
+  });
+});
+
+describe('scenarioDeltas', () => {
+  it('lists the per-keyword change, keywords filtered out of one side included', () => {
+    const a = runScenario(keywords, createScenario('A', DEFAULT_MODEL_CONFIG));
+    const b = runScenario(keywords, createScenario('B', { ...DEFAULT_MODEL_CONFIG, upliftCtr: 20, maxPosition: 20 }));
+    const deltas = scenarioDeltas(a, b);
+    expect(deltas).toHaveLength(3);
+    const laces = deltas.find(d => d.keyword === 'shoe laces');
+    expect(laces?.expectedB).toBeUndefined();
+    expect(laces?.delta).toBeCloseTo(-(laces?.expectedA ?? 0));
+    expect(Math.abs(deltas[0].delta)).toBeGreaterThanOrEqual(Math.abs(deltas[1].delta));
+  });
+});
@@ -0,0 +1,65 @@
+import { DEFAULT_MODEL_CONFIG, runForecast } from './forecast';
+import type { ForecastSummary } from './forecast';
+import { keywordKey } from './clustering';
+import { upgradeTransitionModel } from './transitions';
+import type { KeywordData, ModelConfig, ProcessedKeyword } from '../types';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  config: ModelConfig;
+}
+
+export interface ScenarioResult {
+  id: string;
+  name: string;
+  keywords: ProcessedKeyword[];
+  summary: ForecastSummary;
+}
+
+export interface ScenarioDelta {
+  keyword: string;
+  url?: string;
+  // Undefined when the keyword is filtered out of that scenario
+  expectedA?: number;
+  expectedB?: number;
+  delta: number;
+}
+
+export const CURRENT_SCENARIO_ID = 'current';
+
+export const createScenario = (name: string, config: ModelConfig): Scenario => ({
+  id: `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  createdAt: new Date().toISOString(),
+  config
+});
+
+// Settings added after a scenario was saved fall back to the defaults
+export const runScenario = (keywords: KeywordData[], scenario: Scenario): ScenarioResult => ({
+  id: scenario.id,
+  name: scenario.name,
+  ...runForecast(keywords, {
+    ...DEFAULT_MODEL_CONFIG,
+    ...scenario.config,
+    transitions: upgradeTransitionModel(scenario.config.transitions ?? DEFAULT_MODEL_CONFIG.transitions)
+  })
+});
+
+// Expected traffic per keyword in B minus A, largest changes first
+export const scenarioDeltas = (a: ScenarioResult, b: ScenarioResult): ScenarioDelta[] => {
+  const rows = new Map<string, ScenarioDelta>();
+  for (const k of a.keywords) {
+    rows.set(keywordKey(k), { keyword: k.keyword, url: k.url, expectedA: k.expectedTraffic, delta: 0 });
+  }
+  for (const k of b.keywords) {
+    const key = keywordKey(k);
+    const row = rows.get(key);
+    if (row) row.expectedB = k.expectedTraffic;
+    else rows.set(key, { keyword: k.keyword, url: k.url, expectedB: k.expectedTraffic, delta: 0 });
+  }
+  const list = Array.from(rows.values());
+  for (const row of list) row.delta = (row.expectedB ?? 0) - (row.expectedA ?? 0);
+  return list.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { detectSchema, hasRequiredColumns, headerSignature, headerSimilarity, normalizeHeader } from './schemas';
+
+describe('normalizeHeader', () => {
+  it('strips accents, punctuation and qualifiers', () => {
+    expect(normalizeHeader('Mot-clé')).toBe('mot cle');
+    expect(normalizeHeader('Search Volume (US)')).toBe('search volume');
+    expect(normalizeHeader('Traffic (%)')).toBe('traffic pct');
+  });
+});
+
+describe('headerSimilarity', () => {
+  it('scores identical headers 1 and unrelated ones low', () => {
+    expect(headerSimilarity('Keyword', 'keyword')).toBe(1);
+    expect(headerSimilarity('Keyword', 'CPC')).toBeLessThan(0.3);
+    expect(headerSimilarity('', 'CPC')).toBe(0);
+  });
+});
+
+describe('headerSignature', () => {
+  it('ignores column order and case', () => {
+    expect(headerSignature(['Keyword', 'Position'])).toBe(headerSignature(['position', 'KEYWORD']));
+  });
+});
+
+describe('detectSchema', () => {
+  it('recognises a SEMrush export', () => {
+    const { schema, mapping, source } = detectSchema(['Keyword', 'Position', 'Search Volume', 'URL', 'Traffic', 'Traffic (%)', 'CPC']);
+    expect(source).toBe('schema');
+    expect(schema?.id).toBe('semrush');
+    expect(mapping).toMatchObject({ keyword: 'Keyword', position: 'Position', volume: 'Search Volume', currentTraffic: 'Traffic', cpc: 'CPC' });
+  });
+
+  it('recognises a localised export', () => {
+    const { mapping } = detectSchema(['Mot-clé', 'Position', 'Volume de recherche']);
+    expect(mapping).toMatchObject({ keyword: 'Mot-clé', volume: 'Volume de recherche' });
+  });
+
+  it('falls back to fuzzy matching for unknown headers', () => {
+    const detection = detectSchema(['Keywords', 'Avg. Position', 'Monthly Search Volume']);
+    expect(detection.source).toBe('fuzzy');
+    expect(detection.mapping.keyword).toBe('Keywords');
+  });
+
+  it('flags mappings missing a required column', () => {
+    expect(hasRequiredColumns(detectSchema(['Foo', 'Bar']).mapping)).toBe(false);
+  });
+});
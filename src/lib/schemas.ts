@@ -0,0 +1,194 @@
+import type { ColumnMapping } from '../types';
+
+type MappedField = keyof ColumnMapping;
+
+export interface ExportSchema {
+  id: string;
+  name: string;
+  // Accepted header spellings per field, compared after normalizeHeader
+  headers: { [K in MappedField]?: string[] };
+}
+
+export interface SchemaDetection {
+  schema: ExportSchema | null;
+  mapping: ColumnMapping;
+  source: 'saved' | 'schema' | 'fuzzy';
+}
+
+const REQUIRED_FIELDS: MappedField[] = ['keyword', 'position', 'volume'];
+
+export const EMPTY_COLUMN_MAPPING: ColumnMapping = { keyword: '', position: '', volume: '', url: '', currentTraffic: '', serpFeatures: '', cpc: '', difficulty: '', trends: '' };
+
+// Keyword, position and volume are needed to compute anything
+export const hasRequiredColumns = (mapping: ColumnMapping): boolean =>
+  REQUIRED_FIELDS.every(field => Boolean(mapping[field]));
+
+export const KNOWN_SCHEMAS: ExportSchema[] = [
+  {
+    id: 'semrush',
+    name: 'SEMrush Organic Research',
+    headers: {
+      keyword: ['keyword', 'mot cle', 'schlusselwort', 'palabra clave', 'parola chiave', 'palavra chave', 'trefwoord'],
+      position: ['position', 'posicion', 'posizione', 'posicao', 'positie'],
+      volume: ['search volume', 'volume', 'volume de recherche', 'suchvolumen', 'volumen de busqueda', 'volume di ricerca', 'volume de pesquisa', 'zoekvolume'],
+      url: ['url'],
+      currentTraffic: ['traffic', 'trafic', 'trafico', 'traffico', 'trafego', 'verkeer'],
+      cpc: ['cpc'],
+      difficulty: ['keyword difficulty', 'kd pct', 'kd', 'difficulte du mot cle', 'keyword schwierigkeit', 'dificultad de palabra clave'],
+      trends: ['trends', 'tendances', 'tendencias', 'tendenze'],
+      serpFeatures: ['serp features by keyword', 'serp features', 'fonctionnalites serp par mot cle', 'fonctionnalites serp']
+    }
+  },
+  {
+    id: 'ahrefs',
+    name: 'Ahrefs Organic Keywords',
+    headers: {
+      keyword: ['keyword'],
+      position: ['current position', 'position'],
+      volume: ['volume', 'search volume'],
+      url: ['current url', 'url'],
+      currentTraffic: ['current organic traffic', 'organic traffic', 'traffic'],
+      cpc: ['cpc'],
+      difficulty: ['kd', 'keyword difficulty', 'difficulty'],
+      serpFeatures: ['serp features']
+    }
+  },
+  {
+    id: 'gsc',
+    name: 'Google Search Console Performance',
+    headers: {
+      keyword: ['top queries', 'query', 'requetes les plus frequentes', 'haufigste suchanfragen', 'consultas principales'],
+      position: ['position', 'average position', 'posicion'],
+      // Impressions are the closest thing GSC has to search volume
+      volume: ['impressions', 'impresiones'],
+      url: ['page', 'top pages', 'landing page'],
+      currentTraffic: ['clicks', 'clics', 'klicks']
+    }
+  },
+  {
+    id: 'sistrix',
+    name: 'Sistrix Keywords',
+    headers: {
+      keyword: ['keyword', 'keywords'],
+      position: ['position', 'rank', 'ranking'],
+      volume: ['search volume', 'suchvolumen'],
+      url: ['url'],
+      currentTraffic: ['traffic', 'clicks'],
+      cpc: ['cpc'],
+      serpFeatures: ['serp features', 'serp feature']
+    }
+  }
+];
+
+// Lowercase, strip accents, punctuation and qualifiers like "(US)"; "%" is kept
+// as a word so "Traffic (%)" does not collide with "Traffic"
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\([a-z ]*\)/g, ' ')
+    .replace(/%/g, ' pct ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const bigrams = (value: string): string[] => {
+  const padded = ` ${value} `;
+  return Array.from({ length: padded.length - 1 }, (_, i) => padded.slice(i, i + 2));
+};
+
+// Sørensen–Dice coefficient on character bigrams, 0..1
+export const headerSimilarity = (a: string, b: string): number => {
+  const x = bigrams(normalizeHeader(a));
+  const y = bigrams(normalizeHeader(b));
+  if (x.length === 0 || y.length === 0) return 0;
+  const pool = [...y];
+  let matches = 0;
+  for (const gram of x) {
+    const i = pool.indexOf(gram);
+    if (i >= 0) {
+      matches++;
+      pool.splice(i, 1);
+    }
+  }
+  return (2 * matches) / (x.length + y.length);
+};
+
+const matchSchema = (schema: ExportSchema, headers: string[]): ColumnMapping | null => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = { ...EMPTY_COLUMN_MAPPING };
+  const used = new Set<string>();
+  for (const field of Object.keys(schema.headers) as MappedField[]) {
+    // Aliases are listed by preference, so the first one present wins
+    for (const alias of schema.headers[field] ?? []) {
+      const index = normalized.indexOf(alias);
+      if (index >= 0 && !used.has(headers[index])) {
+        mapping[field] = headers[index];
+        used.add(headers[index]);
+        break;
+      }
+    }
+  }
+  return REQUIRED_FIELDS.every(field => mapping[field]) ? mapping : null;
+};
+
+const FUZZY_THRESHOLD = 0.6;
+
+const fuzzyMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { ...EMPTY_COLUMN_MAPPING };
+  const used = new Set<string>();
+  for (const field of Object.keys(EMPTY_COLUMN_MAPPING) as MappedField[]) {
+    const aliases = KNOWN_SCHEMAS.flatMap(s => s.headers[field] ?? []);
+    let best = { header: '', score: FUZZY_THRESHOLD };
+    for (const header of headers) {
+      if (used.has(header)) continue;
+      for (const alias of aliases) {
+        const score = headerSimilarity(header, alias);
+        if (score > best.score) best = { header, score };
+      }
+    }
+    if (best.header) {
+      mapping[field] = best.header;
+      used.add(best.header);
+    }
+  }
+  return mapping;
+};
+
+// Remembered mappings, keyed by the set of headers in the file
+const SAVED_MAPPINGS_KEY = 'semrush-traffic-gain:column-mappings';
+
+export const headerSignature = (headers: string[]): string =>
+  headers.map(normalizeHeader).sort().join('|');
+
+const readSavedMappings = (): { [signature: string]: ColumnMapping } => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_MAPPINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveColumnMapping = (headers: string[], mapping: ColumnMapping) => {
+  try {
+    const saved = readSavedMappings();
+    saved[headerSignature(headers)] = mapping;
+    localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(saved));
+  } catch (err) {
+    console.error('Could not save column mapping:', err);
+  }
+};
+
+export const detectSchema = (headers: string[]): SchemaDetection => {
+  const saved = readSavedMappings()[headerSignature(headers)];
+  if (saved && REQUIRED_FIELDS.every(field => headers.includes(saved[field] ?? ''))) {
+    return { schema: null, mapping: { ...EMPTY_COLUMN_MAPPING, ...saved }, source: 'saved' };
+  }
+
+  for (const schema of KNOWN_SCHEMAS) {
+    const mapping = matchSchema(schema, headers);
+    if (mapping) return { schema, mapping, source: 'schema' };
+  }
+
+  return { schema: null, mapping: fuzzyMapping(headers), source: 'fuzzy' };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { classifyKeyword, DEFAULT_SEGMENTATION, isValidPattern, parseBrandTerms, SUGGESTED_SEGMENT_CTR } from './segments';
+import { DEFAULT_MODEL_CONFIG, processKeyword } from './forecast';
+import type { SegmentationConfig } from '../types';
+
+const branded: SegmentationConfig = { ...DEFAULT_SEGMENTATION, brandTerms: ['Acme'] };
+
+describe('classifyKeyword', () => {
+  it('recognises brand terms ignoring case and accents', () => {
+    expect(classifyKeyword('acme running shoes', branded)).toBe('branded');
+    expect(classifyKeyword('ACMÉ shoes', { ...DEFAULT_SEGMENTATION, brandTerms: ['acme'] })).toBe('branded');
+    expect(classifyKeyword('acmes shoes', branded)).not.toBe('branded');
+  });
+
+  it('uses the built-in intent patterns', () => {
+    expect(classifyKeyword('nike login', DEFAULT_SEGMENTATION)).toBe('navigational');
+    expect(classifyKeyword('buy running shoes', DEFAULT_SEGMENTATION)).toBe('transactional');
+    expect(classifyKeyword('how to run faster', DEFAULT_SEGMENTATION)).toBe('informational');
+    expect(classifyKeyword('comment courir plus vite', DEFAULT_SEGMENTATION)).toBe('informational');
+    expect(classifyKeyword('running shoes', DEFAULT_SEGMENTATION)).toBe('generic');
+  });
+
+  it('checks custom rules first and skips invalid ones', () => {
+    const segmentation: SegmentationConfig = {
+      ...branded,
+      rules: [{ pattern: '(', segment: 'navigational' }, { pattern: '^acme outlet', segment: 'transactional' }]
+    };
+    expect(classifyKeyword('acme outlet paris', segmentation)).toBe('transactional');
+    expect(classifyKeyword('acme shoes', segmentation)).toBe('branded');
+  });
+});
+
+describe('segment CTR curves', () => {
+  const globalOnly = { ...DEFAULT_MODEL_CONFIG, ctrValues: { ...DEFAULT_MODEL_CONFIG.ctrValues, 1: 40 } };
+
+  it('use the global CTR table by default', () => {
+    expect(processKeyword({ keyword: 'running', position: 1, searchVolume: 1000 }, globalOnly).estimatedCurrentTraffic).toBe(400);
+    expect(processKeyword({ keyword: 'how to run', position: 1, searchVolume: 1000 }, globalOnly).estimatedCurrentTraffic).toBe(400);
+  });
+
+  it('apply to their segment once set', () => {
+    const config = {
+      ...globalOnly,
+      segmentation: { ...DEFAULT_SEGMENTATION, segmentCtr: { informational: SUGGESTED_SEGMENT_CTR.informational } }
+    };
+    expect(processKeyword({ keyword: 'how to run', position: 1, searchVolume: 1000 }, config).estimatedCurrentTraffic).toBe(200);
+    expect(processKeyword({ keyword: 'running', position: 1, searchVolume: 1000 }, config).estimatedCurrentTraffic).toBe(400);
+  });
+});
+
+describe('parseBrandTerms', () => {
+  it('splits on commas and lines', () => {
+    expect(parseBrandTerms('acme, acme.com\n  my brand ,,')).toEqual(['acme', 'acme.com', 'my brand']);
+  });
+});
+
+describe('isValidPattern', () => {
+  it('rejects invalid regular expressions', () => {
+    expect(isValidPattern('^shoes?$')).toBe(true);
+    expect(isValidPattern('[')).toBe(false);
+  });
+});
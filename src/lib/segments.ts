@@ -0,0 +1,83 @@
+import type { CtrTable, KeywordSegment, SegmentationConfig } from '../types';
+
+export const SEGMENTS: { id: KeywordSegment; label: string }[] = [
+  { id: 'branded', label: 'Branded' },
+  { id: 'navigational', label: 'Navigational' },
+  { id: 'transactional', label: 'Transactional' },
+  { id: 'informational', label: 'Informational' },
+  { id: 'generic', label: 'Generic' }
+];
+
+const curve = (values: number[]): CtrTable =>
+  Object.fromEntries(values.map((value, i) => [i + 1, value]));
+
+// Typical curves offered as a starting point when a segment gets its own curve.
+// They are opt-in: by default every segment uses the global CTR table, so CTR
+// profiles and edits apply to all keywords
+export const SUGGESTED_SEGMENT_CTR: SegmentationConfig['segmentCtr'] = {
+  branded: curve([55, 15, 7, 4.5, 3.2, 2.5, 2, 1.6, 1.3, 1.1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.45, 0.4, 0.35, 0.3, 0.3]),
+  navigational: curve([45, 14, 7.5, 5, 3.6, 2.8, 2.2, 1.8, 1.5, 1.3, 1.1, 0.9, 0.8, 0.7, 0.6, 0.55, 0.5, 0.45, 0.4, 0.35]),
+  informational: curve([20, 12, 8.5, 6.3, 4.9, 3.9, 3.1, 2.5, 2.1, 1.8, 1.5, 1.3, 1.1, 1.0, 0.9, 0.8, 0.7, 0.6, 0.55, 0.5])
+};
+
+export const DEFAULT_SEGMENTATION: SegmentationConfig = {
+  brandTerms: [],
+  rules: [],
+  segmentCtr: {},
+  excludeBranded: false
+};
+
+const NAVIGATIONAL = /\b(login|log in|sign in|signin|account|contact|customer service|official site|website|homepage|app|connexion|mon compte|site officiel)\b|\.(com|fr|net|org)\b/;
+const TRANSACTIONAL = /\b(buy|price|prices|pricing|cheap|discount|deal|deals|coupon|promo|order|shop|sale|for sale|delivery|quote|acheter|achat|prix|pas cher|soldes|livraison|devis|commander)\b/;
+const INFORMATIONAL = /^(how|what|why|when|where|who|which|can|does|do|is|are|should)\b|\b(how to|guide|tutorial|tips|ideas|examples|meaning|definition|comment|pourquoi|quand|quel|quelle|quels|quelles|qu est ce|c est quoi|tuto|astuce|astuces|exemple)\b|\?/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (keyword: string) =>
+  keyword.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/['’-]/g, ' ');
+
+export const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+type Classifier = (keyword: string) => KeywordSegment;
+
+// Rules are compiled once per segmentation config
+const classifiers = new WeakMap<SegmentationConfig, Classifier>();
+
+const buildClassifier = (segmentation: SegmentationConfig): Classifier => {
+  const rules = segmentation.rules
+    .filter(rule => rule.pattern && isValidPattern(rule.pattern))
+    .map(rule => ({ regex: new RegExp(rule.pattern, 'i'), segment: rule.segment }));
+  const terms = segmentation.brandTerms.map(t => normalize(t).trim()).filter(Boolean);
+  const brand = terms.length ? new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`) : null;
+
+  return (keyword: string) => {
+    // Custom rules run first, on the raw keyword
+    const rule = rules.find(r => r.regex.test(keyword));
+    if (rule) return rule.segment;
+    const text = normalize(keyword);
+    if (brand?.test(text)) return 'branded';
+    if (NAVIGATIONAL.test(text)) return 'navigational';
+    if (TRANSACTIONAL.test(text)) return 'transactional';
+    if (INFORMATIONAL.test(text)) return 'informational';
+    return 'generic';
+  };
+};
+
+export const classifyKeyword = (keyword: string, segmentation: SegmentationConfig): KeywordSegment => {
+  let classify = classifiers.get(segmentation);
+  if (!classify) {
+    classify = buildClassifier(segmentation);
+    classifiers.set(segmentation, classify);
+  }
+  return classify(keyword);
+};
+
+export const parseBrandTerms = (text: string): string[] =>
+  text.split(/[\n,]/).map(t => t.trim()).filter(Boolean);
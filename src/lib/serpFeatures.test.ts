@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SERP_FEATURE_MULTIPLIERS, parseSerpFeatures, serpFeatureBreakdown, serpFeatureFactor } from './serpFeatures';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+
+describe('parseSerpFeatures', () => {
+  it('maps export labels to features and ignores unknown ones', () => {
+    expect(parseSerpFeatures('Featured snippet, People also ask; Video | Unknown thing')).toEqual(['featuredSnippet', 'peopleAlsoAsk', 'video']);
+    expect(parseSerpFeatures('Image pack, Images')).toEqual(['images']);
+    expect(parseSerpFeatures(undefined)).toEqual([]);
+  });
+});
+
+describe('serpFeatureFactor', () => {
+  it('multiplies the multipliers of every feature', () => {
+    expect(serpFeatureFactor(['ads', 'featuredSnippet'], DEFAULT_SERP_FEATURE_MULTIPLIERS)).toBeCloseTo(0.7 * 0.8);
+    expect(serpFeatureFactor(undefined, DEFAULT_SERP_FEATURE_MULTIPLIERS)).toBe(1);
+    expect(serpFeatureFactor(['ads'], {})).toBe(1);
+  });
+});
+
+describe('serpFeatureBreakdown', () => {
+  it('splits each keyword loss between its features', () => {
+    const processed = processKeywords([
+      { keyword: 'running shoes', position: 8, searchVolume: 5000, serpFeatures: ['ads', 'images'] },
+      { keyword: 'trail shoes', position: 12, searchVolume: 1000, serpFeatures: ['ads'] },
+      { keyword: 'hiking boots', position: 5, searchVolume: 800 }
+    ], DEFAULT_MODEL_CONFIG);
+    const breakdown = serpFeatureBreakdown(processed, DEFAULT_SERP_FEATURE_MULTIPLIERS);
+    const totalLoss = processed.reduce((sum, k) => sum + k.serpFeatureLoss, 0);
+    expect(breakdown.map(i => [i.feature, i.keywords])).toEqual([['ads', 2], ['images', 1]]);
+    expect(breakdown.reduce((sum, i) => sum + i.lostTraffic, 0)).toBeCloseTo(totalLoss);
+    expect(processed[2].serpFeatureLoss).toBe(0);
+  });
+});
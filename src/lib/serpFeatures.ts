@@ -0,0 +1,72 @@
+import type { ProcessedKeyword, SerpFeature, SerpFeatureMultipliers } from '../types';
+
+export const SERP_FEATURES: { id: SerpFeature; label: string; aliases: string[]; multiplier: number }[] = [
+  { id: 'ads', label: 'Ads on top', aliases: ['ads', 'ads top', 'top ads', 'adwords top', 'paid'], multiplier: 0.7 },
+  { id: 'aiOverview', label: 'AI Overview', aliases: ['ai overview', 'ai overviews', 'sge'], multiplier: 0.7 },
+  { id: 'featuredSnippet', label: 'Featured snippet', aliases: ['featured snippet', 'featured snippets', 'answer box'], multiplier: 0.8 },
+  { id: 'localPack', label: 'Local pack', aliases: ['local pack', 'local teaser', 'map pack', 'maps'], multiplier: 0.75 },
+  { id: 'shopping', label: 'Shopping ads', aliases: ['shopping ads', 'shopping', 'popular products', 'product listing'], multiplier: 0.8 },
+  { id: 'knowledgePanel', label: 'Knowledge panel', aliases: ['knowledge panel', 'knowledge card', 'knowledge graph'], multiplier: 0.85 },
+  { id: 'peopleAlsoAsk', label: 'People Also Ask', aliases: ['people also ask', 'paa', 'related questions'], multiplier: 0.92 },
+  { id: 'video', label: 'Video', aliases: ['video', 'videos', 'video carousel', 'featured video'], multiplier: 0.9 },
+  { id: 'topStories', label: 'Top stories', aliases: ['top stories', 'news'], multiplier: 0.9 },
+  { id: 'images', label: 'Images', aliases: ['image', 'images', 'image pack', 'thumbnails', 'image thumbnails'], multiplier: 0.95 },
+  { id: 'sitelinks', label: 'Sitelinks', aliases: ['sitelinks', 'site links'], multiplier: 1 },
+  { id: 'reviews', label: 'Reviews', aliases: ['reviews', 'review', 'stars'], multiplier: 1 }
+];
+
+export const DEFAULT_SERP_FEATURE_MULTIPLIERS: SerpFeatureMultipliers = Object.fromEntries(
+  SERP_FEATURES.map(f => [f.id, f.multiplier])
+);
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const ALIASES = new Map<string, SerpFeature>(
+  SERP_FEATURES.flatMap(f => f.aliases.map(alias => [alias, f.id] as [string, SerpFeature]))
+);
+
+// Parses a "Featured snippet, People also ask, Video" cell; unknown features are ignored
+export const parseSerpFeatures = (value: unknown): SerpFeature[] => {
+  const features = new Set<SerpFeature>();
+  for (const part of String(value ?? '').split(/[,;|]/)) {
+    const feature = ALIASES.get(normalize(part));
+    if (feature) features.add(feature);
+  }
+  return Array.from(features);
+};
+
+export const serpFeatureFactor = (features: SerpFeature[] | undefined, multipliers: SerpFeatureMultipliers): number =>
+  (features ?? []).reduce((factor, feature) => factor * (multipliers[feature] ?? 1), 1);
+
+export interface SerpFeatureImpact {
+  feature: SerpFeature;
+  label: string;
+  keywords: number;
+  lostTraffic: number;
+}
+
+// Each keyword's loss is split between its features in proportion to the log
+// of their multipliers, so the shares add up to the keyword's total loss
+export const serpFeatureBreakdown = (
+  processedKeywords: ProcessedKeyword[],
+  multipliers: SerpFeatureMultipliers
+): SerpFeatureImpact[] => {
+  const impacts = new Map<SerpFeature, SerpFeatureImpact>(
+    SERP_FEATURES.map(f => [f.id, { feature: f.id, label: f.label, keywords: 0, lostTraffic: 0 }])
+  );
+  for (const k of processedKeywords) {
+    const features = k.serpFeatures ?? [];
+    const weights = features.map(f => -Math.log(Math.max(1e-6, Math.min(1, multipliers[f] ?? 1))));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    features.forEach((feature, i) => {
+      const impact = impacts.get(feature);
+      if (!impact) return;
+      impact.keywords++;
+      if (totalWeight > 0) impact.lostTraffic += k.serpFeatureLoss * (weights[i] / totalWeight);
+    });
+  }
+  return Array.from(impacts.values())
+    .filter(i => i.keywords > 0)
+    .sort((a, b) => b.lostTraffic - a.lostTraffic);
+};
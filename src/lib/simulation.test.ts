@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildHistogram, mulberry32, packKeywords, percentile, simulatePortfolio } from './simulation';
+import { DEFAULT_MODEL_CONFIG, processKeywords, summarizeKeywords } from './forecast';
+
+const keywords = processKeywords(
+  [
+    { keyword: 'running shoes', position: 8, searchVolume: 5000 },
+    { keyword: 'trail shoes', position: 15, searchVolume: 2000 },
+    { keyword: 'shoe laces', position: 2, searchVolume: 800 }
+  ],
+  DEFAULT_MODEL_CONFIG
+);
+const outcomeCount = DEFAULT_MODEL_CONFIG.outcomes.length;
+
+describe('mulberry32', () => {
+  it('reproduces the same sequence for a seed', () => {
+    const a = mulberry32(42);
+    const b = mulberry32(42);
+    const values = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between ranks', () => {
+    expect(percentile([0, 10, 20, 30], 0.5)).toBe(15);
+    expect(percentile([0, 10, 20, 30], 0)).toBe(0);
+    expect(percentile([0, 10, 20, 30], 1)).toBe(30);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('counts every value once', () => {
+    const histogram = buildHistogram(new Float64Array([1, 2, 2, 3, 10]), 3);
+    expect(histogram).toHaveLength(3);
+    expect(histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(5);
+    expect(histogram[2].count).toBe(1);
+  });
+
+  it('handles identical values', () => {
+    expect(buildHistogram(new Float64Array([4, 4, 4]), 5)[0].count).toBe(3);
+  });
+});
+
+describe('simulatePortfolio', () => {
+  const packed = packKeywords(keywords, outcomeCount);
+
+  it('is reproducible for a seed', () => {
+    const a = simulatePortfolio(packed, { iterations: 500, seed: 7, outcomeCount });
+    const b = simulatePortfolio(packed, { iterations: 500, seed: 7, outcomeCount });
+    expect(a).toEqual(b);
+  });
+
+  it('converges to the expected traffic', () => {
+    const summary = summarizeKeywords(keywords);
+    const result = simulatePortfolio(packed, { iterations: 20000, seed: 1, outcomeCount });
+    expect(result.currentTraffic).toBeCloseTo(summary.totalCurrentTraffic);
+    expect(result.traffic.mean / summary.totalExpectedTraffic).toBeCloseTo(1, 1);
+    expect(result.traffic.p10).toBeLessThanOrEqual(result.traffic.p50);
+    expect(result.traffic.p50).toBeLessThanOrEqual(result.traffic.p90);
+  });
+
+  it('reports progress every 100 iterations', () => {
+    const done: number[] = [];
+    simulatePortfolio(packed, { iterations: 250, seed: 1, outcomeCount }, n => done.push(n));
+    expect(done).toEqual([100, 200]);
+  });
+
+  it('keeps the current traffic when every keyword stays', () => {
+    const stay = packKeywords(keywords.map(k => ({ ...k, probStay: 1, outcomes: k.outcomes.map(o => ({ ...o, probability: 0 })) })), outcomeCount);
+    const result = simulatePortfolio(stay, { iterations: 100, seed: 3, outcomeCount });
+    expect(result.gain.p10).toBeCloseTo(0);
+    expect(result.gain.p90).toBeCloseTo(0);
+  });
+});
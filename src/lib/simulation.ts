@@ -0,0 +1,136 @@
+import type { ProcessedKeyword } from '../types';
+
+// Per-keyword values packed as [current, probStay, traffic, probability, traffic, probability...],
+// one pair per ranking outcome
+export const simulationStride = (outcomeCount: number) => 2 + 2 * outcomeCount;
+
+export interface SimulationOptions {
+  iterations: number;
+  seed: number;
+  // Ranking outcomes per keyword in the packed array
+  outcomeCount: number;
+  bins?: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  currentTraffic: number;
+  traffic: Percentiles;
+  gain: Percentiles;
+  histogram: HistogramBin[];
+}
+
+// Small, fast seeded PRNG so a given seed always reproduces the same run
+export const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const packKeywords = (keywords: ProcessedKeyword[], outcomeCount: number): Float64Array => {
+  const stride = simulationStride(outcomeCount);
+  const packed = new Float64Array(keywords.length * stride);
+  keywords.forEach((k, i) => {
+    packed.set([k.estimatedCurrentTraffic, k.probStay, ...k.outcomes.flatMap(o => [o.traffic, o.probability])], i * stride);
+  });
+  return packed;
+};
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const summarize = (sorted: Float64Array): Percentiles => {
+  let sum = 0;
+  for (let i = 0; i < sorted.length; i++) sum += sorted[i];
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: sorted.length ? sum / sorted.length : 0
+  };
+};
+
+export const buildHistogram = (sorted: Float64Array, bins: number): HistogramBin[] => {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / bins || 1;
+  const histogram = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (let i = 0; i < sorted.length; i++) {
+    const bin = Math.min(bins - 1, Math.floor((sorted[i] - min) / width));
+    histogram[bin].count++;
+  }
+  return histogram;
+};
+
+// Samples each keyword's ranking outcome independently and collects the
+// portfolio total per iteration
+export const simulatePortfolio = (
+  packed: Float64Array,
+  options: SimulationOptions,
+  onProgress?: (done: number) => void
+): SimulationResult => {
+  const { iterations, seed, outcomeCount, bins = 30 } = options;
+  const random = mulberry32(seed);
+  const stride = simulationStride(outcomeCount);
+  const count = packed.length / stride;
+
+  let currentTraffic = 0;
+  for (let k = 0; k < count; k++) currentTraffic += packed[k * stride];
+
+  const totals = new Float64Array(iterations);
+  for (let i = 0; i < iterations; i++) {
+    let total = 0;
+    for (let k = 0; k < count; k++) {
+      const o = k * stride;
+      const r = random();
+      // Walk the cumulative probabilities; rounding leftovers land on the last outcome
+      let traffic = packed[o];
+      let cumulative = packed[o + 1];
+      for (let j = 0; j < outcomeCount && r >= cumulative; j++) {
+        traffic = packed[o + 2 + 2 * j];
+        cumulative += packed[o + 3 + 2 * j];
+      }
+      total += traffic;
+    }
+    totals[i] = total;
+    if (onProgress && (i + 1) % 100 === 0) onProgress(i + 1);
+  }
+
+  totals.sort();
+  const gains = totals.map(t => t - currentTraffic);
+
+  return {
+    iterations,
+    seed,
+    currentTraffic,
+    traffic: summarize(totals),
+    gain: summarize(gains),
+    histogram: buildHistogram(gains, bins)
+  };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { includedRawSources, sourceColumns, sourceLabel, summarizeBySource, tagsFromFileName, UNTAGGED_SOURCE_LABEL } from './sources';
+import { readFileSources, sourcesFromData, UnsupportedFileError } from './fileParsing';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const workbookData = (sheets: { [name: string]: unknown[][] }): Uint8Array => {
+  const wb = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), name);
+  return new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+};
+
+describe('tagsFromFileName', () => {
+  it('reads domain, market and date from SEMrush file names', () => {
+    expect(tagsFromFileName('example.com-organic.Positions-fr-20260901-2026-09-02T10_00_00Z.csv'))
+      .toEqual({ domain: 'example.com', market: 'FR', date: '2026-09-01' });
+  });
+
+  it('leaves other file names untagged', () => {
+    expect(tagsFromFileName('keywords.csv')).toEqual({ domain: '', market: '', date: '' });
+  });
+});
+
+describe('sourceLabel', () => {
+  it('joins the non-empty tags', () => {
+    expect(sourceLabel({ domain: 'example.com', market: ' FR ', date: '' })).toBe('example.com · FR');
+    expect(sourceLabel({ domain: '', market: '', date: '' })).toBe('');
+  });
+});
+
+describe('sourcesFromData', () => {
+  it('parses a CSV file into one source', () => {
+    const [source] = sourcesFromData('example.com-organic.Positions-de-20260901.csv', encode('Keyword,Position\nschuhe,3\nstiefel,7\n'));
+    expect(source).toMatchObject({ columns: ['Keyword', 'Position'], rowCount: 2, included: true });
+    expect(source.tags.market).toBe('DE');
+  });
+
+  it('makes a source of every non-empty sheet and only includes the first', () => {
+    const sources = sourcesFromData('export.xlsx', workbookData({
+      FR: [['Keyword', 'Position'], ['chaussures', 3]],
+      Empty: [],
+      DE: [['Keyword', 'Position', 'Volume'], ['schuhe', 5, 100]]
+    }));
+    expect(sources.map(s => [s.sheetName, s.included])).toEqual([['FR', true], ['DE', false]]);
+    expect(sourceColumns(sources)).toEqual(['Keyword', 'Position']);
+    expect(sourceColumns(sources.map(s => ({ ...s, included: true })))).toEqual(['Keyword', 'Position', 'Volume']);
+  });
+
+  it('rejects other file types', () => {
+    expect(() => sourcesFromData('notes.txt', encode('hello'))).toThrow(UnsupportedFileError);
+  });
+});
+
+describe('readFileSources', () => {
+  it('keeps multibyte characters split across read chunks intact', async () => {
+    const data = encode('Mot-clé,Position\ncrème brûlée,3\ngâteau,7\n');
+    // The file is read part by part; the first part ends inside the "é" of the header
+    const split = 'Mot-cl'.length + 1;
+    const file = new File([data.slice(0, split), data.slice(split)], 'desserts.csv');
+    const progress: number[] = [];
+    const [source] = await readFileSources(file, loaded => progress.push(loaded));
+    expect(source.columns).toEqual(['Mot-clé', 'Position']);
+    expect(source.rows.map(row => row['Mot-clé'])).toEqual(['crème brûlée', 'gâteau']);
+    expect(progress).toEqual([split, file.size]);
+  });
+
+  it('parses records chunk by chunk like a single pass would', async () => {
+    const text = 'Mot-clé;Position;Notes\r\ncrème brûlée;3;"dessert; ""classique""\r\nsur deux lignes"\r\ngâteau;7;\r\nsoufflé;12;"é"';
+    const data = encode(text);
+    const [expected] = sourcesFromData('desserts.csv', data);
+    expect(expected.rowCount).toBe(3);
+    // Every cut point, including inside "é", inside quotes and between \r and \n
+    for (let split = 1; split < data.length; split++) {
+      const file = new File([data.slice(0, split), data.slice(split)], 'desserts.csv');
+      const [source] = await readFileSources(file);
+      expect(source.rows).toEqual(expected.rows);
+    }
+  });
+
+  it('rejects other file types', async () => {
+    await expect(readFileSources(new File(['hello'], 'notes.txt'))).rejects.toThrow(UnsupportedFileError);
+  });
+});
+
+describe('includedRawSources', () => {
+  it('labels the included sources with their file, sheet and tags', () => {
+    const sources = sourcesFromData('export.xlsx', workbookData({ FR: [['Keyword'], ['a']], DE: [['Keyword'], ['b']] }));
+    const raw = includedRawSources(sources.map(s => ({ ...s, tags: { domain: 'example.com', market: s.sheetName ?? '', date: '' } })));
+    expect(raw.map(r => [r.file, r.label])).toEqual([['export.xlsx / FR', 'example.com · FR']]);
+  });
+});
+
+describe('summarizeBySource', () => {
+  it('groups untagged keywords together and sorts by gain', () => {
+    const processed = processKeywords([
+      { keyword: 'shoes', position: 8, searchVolume: 100, source: 'FR' },
+      { keyword: 'boots', position: 8, searchVolume: 5000 },
+      { keyword: 'laces', position: 8, searchVolume: 200 }
+    ], DEFAULT_MODEL_CONFIG);
+    const summary = summarizeBySource(processed);
+    expect(summary.map(s => [s.source, s.keywords])).toEqual([[UNTAGGED_SOURCE_LABEL, 2], ['FR', 1]]);
+  });
+});
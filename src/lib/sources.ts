@@ -0,0 +1,81 @@
+import type { ProcessedKeyword, SourceTags } from '../types';
+import type { RawSource } from './importer';
+
+// What the UI shows of a source; its rows stay with the parser until mapping
+export interface SourceInfo {
+  id: string;
+  fileName: string;
+  sheetName?: string;
+  columns: string[];
+  rowCount: number;
+  included: boolean;
+  tags: SourceTags;
+}
+
+// One file, or one sheet of a workbook, waiting to be mapped
+export interface ImportSource extends SourceInfo {
+  rows: Record<string, unknown>[];
+}
+
+export interface SourceSummary {
+  source: string;
+  keywords: number;
+  currentTraffic: number;
+  expectedTraffic: number;
+  expectedGain: number;
+}
+
+export const UNTAGGED_SOURCE_LABEL = '(untagged)';
+
+// Rows from sources with the same tags are merged and deduplicated together
+export const sourceLabel = (tags: SourceTags): string =>
+  [tags.domain, tags.market, tags.date].map(t => t.trim()).filter(Boolean).join(' · ');
+
+// SEMrush names exports like "example.com-organic.Positions-fr-20260901-…csv"
+export const tagsFromFileName = (fileName: string): SourceTags => {
+  const match = /^(.+?)-organic\.Positions-([a-z]{2})-(\d{4})(\d{2})(\d{2})/i.exec(fileName);
+  if (!match) return { domain: '', market: '', date: '' };
+  return {
+    domain: match[1],
+    market: match[2].toUpperCase(),
+    date: `${match[3]}-${match[4]}-${match[5]}`
+  };
+};
+
+export const sourceInfo = (source: ImportSource): SourceInfo => ({
+  id: source.id,
+  fileName: source.fileName,
+  sheetName: source.sheetName,
+  columns: source.columns,
+  rowCount: source.rowCount,
+  included: source.included,
+  tags: source.tags
+});
+
+// Columns of every included source, in first-seen order
+export const sourceColumns = (sources: SourceInfo[]): string[] =>
+  Array.from(new Set(sources.filter(s => s.included).flatMap(s => s.columns)));
+
+// Included sources as the importer expects them, tagged with their source label
+export const includedRawSources = (sources: ImportSource[]): RawSource[] =>
+  sources
+    .filter(source => source.included)
+    .map(source => ({
+      file: source.sheetName ? `${source.fileName} / ${source.sheetName}` : source.fileName,
+      label: sourceLabel(source.tags),
+      rows: source.rows
+    }));
+
+export const summarizeBySource = (processedKeywords: ProcessedKeyword[]): SourceSummary[] => {
+  const bySource = new Map<string, SourceSummary>();
+  for (const k of processedKeywords) {
+    const source = k.source || UNTAGGED_SOURCE_LABEL;
+    const entry = bySource.get(source) ?? { source, keywords: 0, currentTraffic: 0, expectedTraffic: 0, expectedGain: 0 };
+    entry.keywords++;
+    entry.currentTraffic += k.estimatedCurrentTraffic;
+    entry.expectedTraffic += k.expectedTraffic;
+    entry.expectedGain += k.expectedGain;
+    bySource.set(source, entry);
+  }
+  return Array.from(bySource.values()).sort((a, b) => b.expectedGain - a.expectedGain);
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyTableView, DEFAULT_TABLE_VIEW, outcomeSortKey } from './tableView';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+
+const rows = processKeywords(
+  [
+    { keyword: 'running shoes', position: 8, searchVolume: 5000, url: 'https://example.com/running', cpc: 1.2 },
+    { keyword: 'trail shoes', position: 15, searchVolume: 2000, url: 'https://example.com/trail' },
+    { keyword: 'hiking boots', position: 4, searchVolume: 900, url: 'https://example.com/boots', cpc: 0.5 }
+  ],
+  DEFAULT_MODEL_CONFIG
+);
+
+const keywordsOf = (result: typeof rows) => result.map(k => k.keyword);
+
+describe('applyTableView', () => {
+  it('keeps the input order without search or sort', () => {
+    const result = applyTableView(rows, DEFAULT_TABLE_VIEW);
+    expect(keywordsOf(result)).toEqual(keywordsOf(rows));
+    expect(result).not.toBe(rows);
+  });
+
+  it('searches keywords and URLs case-insensitively', () => {
+    expect(keywordsOf(applyTableView(rows, { ...DEFAULT_TABLE_VIEW, search: 'SHOES' }))).toEqual(['running shoes', 'trail shoes']);
+    expect(keywordsOf(applyTableView(rows, { ...DEFAULT_TABLE_VIEW, search: '/boots' }))).toEqual(['hiking boots']);
+  });
+
+  it('sorts numbers and strings in both directions', () => {
+    expect(keywordsOf(applyTableView(rows, { search: '', sortKey: 'position', sortDirection: 'asc' })))
+      .toEqual(['hiking boots', 'running shoes', 'trail shoes']);
+    expect(keywordsOf(applyTableView(rows, { search: '', sortKey: 'keyword', sortDirection: 'desc' })))
+      .toEqual(['trail shoes', 'running shoes', 'hiking boots']);
+  });
+
+  it('puts missing values last whatever the direction', () => {
+    expect(keywordsOf(applyTableView(rows, { search: '', sortKey: 'cpc', sortDirection: 'asc' })))
+      .toEqual(['hiking boots', 'running shoes', 'trail shoes']);
+    expect(keywordsOf(applyTableView(rows, { search: '', sortKey: 'cpc', sortDirection: 'desc' })))
+      .toEqual(['running shoes', 'hiking boots', 'trail shoes']);
+  });
+
+  it('sorts by a ranking outcome column', () => {
+    const sorted = applyTableView(rows, { search: '', sortKey: outcomeSortKey('gain', 'pos1'), sortDirection: 'desc' });
+    const gains = sorted.map(k => k.outcomes.find(o => o.id === 'pos1')?.gain ?? 0);
+    expect(gains).toEqual([...gains].sort((a, b) => b - a));
+  });
+});
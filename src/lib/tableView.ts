@@ -0,0 +1,55 @@
+import type { ProcessedKeyword } from '../types';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Ranking outcome columns are keyed by metric and outcome id, e.g. "gain:pos3"
+export type OutcomeSortKey = `${'traffic' | 'gain'}:${string}`;
+
+export type SortKey = keyof ProcessedKeyword | OutcomeSortKey;
+
+export const outcomeSortKey = (metric: 'traffic' | 'gain', outcomeId: string): OutcomeSortKey => `${metric}:${outcomeId}`;
+
+export interface TableView {
+  search: string;
+  sortKey: SortKey | null;
+  sortDirection: SortDirection;
+}
+
+export const DEFAULT_TABLE_VIEW: TableView = {
+  search: '',
+  sortKey: null,
+  sortDirection: 'desc'
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '' || Number.isNaN(value);
+
+const sortValue = (k: ProcessedKeyword, key: SortKey): unknown => {
+  const match = /^(traffic|gain):(.*)$/.exec(key);
+  if (!match) return k[key as keyof ProcessedKeyword];
+  const outcome = k.outcomes.find(o => o.id === match[2]);
+  return match[1] === 'traffic' ? outcome?.traffic : outcome?.gain;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// Search on keyword and URL, then sort; the input array is left untouched
+export const applyTableView = <T extends ProcessedKeyword>(rows: T[], view: TableView): T[] => {
+  const query = view.search.trim().toLowerCase();
+  const filtered = query
+    ? rows.filter(k => k.keyword.toLowerCase().includes(query) || (k.url?.toLowerCase().includes(query) ?? false))
+    : rows.slice();
+
+  const { sortKey } = view;
+  if (!sortKey) return filtered;
+  const sign = view.sortDirection === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => {
+    const va = sortValue(a, sortKey);
+    const vb = sortValue(b, sortKey);
+    // Missing values always sort last, whatever the direction
+    if (isMissing(va) || isMissing(vb)) return Number(isMissing(va)) - Number(isMissing(vb));
+    return compareValues(va, vb) * sign;
+  });
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { addMonths, buildTimeline, DEFAULT_TIMELINE, monthsBetween, parseTrends, rampShare, seasonalFactor } from './timeline';
+import { DEFAULT_MODEL_CONFIG, processKeywords } from './forecast';
+import type { TimelineConfig } from '../types';
+
+const config: TimelineConfig = { ...DEFAULT_TIMELINE, startMonth: '2026-11', trendsEndMonth: '2026-10', horizon: 6, delayMonths: 1, rampMonths: 4, curve: 'linear' };
+
+describe('parseTrends', () => {
+  it('reads 12 monthly ratios', () => {
+    expect(parseTrends('0.5,0.6,0.7,0.8,0.9,1,1,0.9,0.8,0.7,0.6,0.5')).toHaveLength(12);
+    expect(parseTrends('0,5;0,6;0,7;0,8;0,9;1;1;0,9;0,8;0,7;0,6;0,5')?.[0]).toBe(0.5);
+  });
+
+  it('ignores cells without exactly 12 values', () => {
+    expect(parseTrends('0.5,0.6')).toBeUndefined();
+    expect(parseTrends('')).toBeUndefined();
+  });
+});
+
+describe('addMonths', () => {
+  it('rolls over years', () => {
+    expect(addMonths('2026-11', 2)).toBe('2027-01');
+    expect(addMonths('2026-01', -1)).toBe('2025-12');
+  });
+});
+
+describe('monthsBetween', () => {
+  it('counts calendar months', () => {
+    expect(monthsBetween('2025-12', '2026-02')).toBe(2);
+    expect(monthsBetween('2026-03', '2026-01')).toBe(-2);
+    expect(monthsBetween('', '2026-01')).toBe(0);
+  });
+});
+
+describe('rampShare', () => {
+  it('waits for the delay, then ramps up to 1', () => {
+    expect([0, 1, 2, 3, 4, 5].map(i => rampShare(i, config))).toEqual([0, 0.25, 0.5, 0.75, 1, 1]);
+  });
+
+  it('follows an S-curve', () => {
+    const sCurve = { ...config, curve: 'sCurve' as const };
+    expect(rampShare(1, sCurve)).toBeLessThan(0.25);
+    expect(rampShare(2, sCurve)).toBeCloseTo(0.5);
+    expect(rampShare(3, sCurve)).toBeGreaterThan(0.75);
+  });
+
+  it('jumps straight to 1 without a ramp', () => {
+    expect(rampShare(1, { ...config, rampMonths: 0 })).toBe(1);
+  });
+});
+
+describe('seasonalFactor', () => {
+  it('averages 1 over the year', () => {
+    const trends = [0.5, 0.6, 0.7, 0.8, 0.9, 1, 1, 0.9, 0.8, 0.7, 0.6, 0.5];
+    const factors = Array.from({ length: 12 }, (_, i) => seasonalFactor(trends, i));
+    expect(factors.reduce((sum, f) => sum + f, 0)).toBeCloseTo(12);
+    expect(seasonalFactor(trends, 12)).toBe(factors[0]);
+    expect(seasonalFactor(trends, -1)).toBe(factors[11]);
+    expect(seasonalFactor(undefined, 3)).toBe(1);
+  });
+});
+
+describe('buildTimeline', () => {
+  const keywords = processKeywords([
+    { keyword: 'running shoes', position: 8, searchVolume: 5000 },
+    { keyword: 'ski boots', position: 6, searchVolume: 1000, trends: [1, 1, 0.8, 0.5, 0.2, 0.1, 0.1, 0.1, 0.2, 0.5, 0.8, 1] }
+  ], DEFAULT_MODEL_CONFIG);
+
+  it('reaches the expected traffic once the ramp is over', () => {
+    const timeline = buildTimeline(keywords, { ...config, seasonality: false });
+    const expected = keywords.reduce((sum, k) => sum + k.expectedTraffic, 0);
+    expect(timeline.months.map(m => m.month)).toEqual(['2026-11', '2026-12', '2027-01', '2027-02', '2027-03', '2027-04']);
+    expect(timeline.months[0].gain).toBe(0);
+    expect(timeline.months[5].projected).toBeCloseTo(expected);
+    expect(timeline.seasonalKeywords).toBe(0);
+  });
+
+  it('applies the monthly trends', () => {
+    const timeline = buildTimeline(keywords, { ...config, seasonality: true });
+    const ski = timeline.keywords[1].projected;
+    expect(timeline.seasonalKeywords).toBe(1);
+    expect(ski[4]).toBeLessThan(ski[0]);
+  });
+
+  it('lines the trends up with the calendar when the forecast does not start right after them', () => {
+    const ski = keywords[1];
+    const adjacent = buildTimeline(keywords, config).keywords[1].projected;
+    // Four months after the end of the trends, the first forecast month falls on trends[3]
+    const later = buildTimeline(keywords, { ...config, startMonth: '2027-02' });
+    expect(later.months[0].month).toBe('2027-02');
+    expect(adjacent[0]).toBeCloseTo(ski.estimatedCurrentTraffic * seasonalFactor(ski.trends, 0));
+    expect(later.keywords[1].projected[0]).toBeCloseTo(ski.estimatedCurrentTraffic * seasonalFactor(ski.trends, 3));
+    expect(later.keywords[1].projected[0]).toBeLessThan(adjacent[0]);
+  });
+
+  it('follows the calendar when the months are left empty', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2027-03-15T12:00:00Z'));
+    try {
+      const timeline = buildTimeline(keywords, { ...config, startMonth: '', trendsEndMonth: '' });
+      expect(timeline.months[0].month).toBe('2027-03');
+      // The trends are taken to end the month before, so month 0 falls on trends[0]
+      expect(timeline.keywords[1].projected[0]).toBeCloseTo(keywords[1].estimatedCurrentTraffic * seasonalFactor(keywords[1].trends, 0));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
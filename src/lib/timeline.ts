@@ -0,0 +1,116 @@
+import type { ProcessedKeyword, TimelineConfig } from '../types';
+
+export const TIMELINE_HORIZONS = [3, 6, 12] as const;
+
+// Months are left empty so they follow the calendar instead of the day the app
+// was loaded or the project saved
+export const DEFAULT_TIMELINE: TimelineConfig = {
+  horizon: 12,
+  startMonth: '',
+  trendsEndMonth: '',
+  delayMonths: 1,
+  rampMonths: 6,
+  curve: 'sCurve',
+  seasonality: true
+};
+
+export interface TimelineMonth {
+  month: string;
+  // Traffic if rankings stay where they are, seasonality included
+  baseline: number;
+  projected: number;
+  gain: number;
+}
+
+export interface Timeline {
+  months: TimelineMonth[];
+  // Projected traffic per keyword, one value per month, in the same order as the keywords
+  keywords: { keyword: ProcessedKeyword; projected: number[] }[];
+  seasonalKeywords: number;
+}
+
+// SEMrush's "Trends" cell: 12 monthly interest ratios, oldest first, e.g.
+// "0.54,0.66,0.81,1.00,...". Cells that do not hold exactly 12 numbers are ignored.
+export const parseTrends = (value: unknown): number[] | undefined => {
+  const text = String(value ?? '').trim();
+  if (!text) return undefined;
+  // With ";" as the list separator, commas are decimal separators
+  const parts = text.includes(';') ? text.split(';').map(p => p.replace(',', '.')) : text.split(/[,|\s]+/);
+  const ratios = parts.map(p => parseFloat(p)).filter(n => Number.isFinite(n) && n >= 0);
+  return ratios.length === 12 ? ratios : undefined;
+};
+
+// "2025-03" + 2 -> "2025-05"
+export const addMonths = (month: string, offset: number): string => {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year || new Date().getUTCFullYear(), (m || 1) - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+// Months from `from` to `to`, e.g. "2025-12" to "2026-02" -> 2
+export const monthsBetween = (from: string, to: string): number => {
+  const index = (month: string) => {
+    const [year, m] = month.split('-').map(Number);
+    return year * 12 + m - 1;
+  };
+  const months = index(to) - index(from);
+  return Number.isFinite(months) ? months : 0;
+};
+
+export const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+export const timelineStartMonth = (config: TimelineConfig): string => config.startMonth || currentMonth();
+
+export const trendsEndMonth = (config: TimelineConfig): string => config.trendsEndMonth || addMonths(currentMonth(), -1);
+
+// Share of the ranking improvement reached in month `index` (0-based)
+export const rampShare = (index: number, config: TimelineConfig): number => {
+  const elapsed = index + 1 - config.delayMonths;
+  if (elapsed <= 0) return 0;
+  if (config.rampMonths <= 0 || elapsed >= config.rampMonths) return 1;
+  const x = elapsed / config.rampMonths;
+  return config.curve === 'linear' ? x : x * x * (3 - 2 * x);
+};
+
+// `index` counts months after the last trend value: month 0 falls on the same
+// calendar month as trends[0], a year later. Factors average 1 because search
+// volume is a 12-month average.
+export const seasonalFactor = (trends: number[] | undefined, index: number): number => {
+  if (!trends) return 1;
+  const mean = trends.reduce((sum, r) => sum + r, 0) / trends.length;
+  return mean > 0 ? trends[((index % 12) + 12) % 12] / mean : 1;
+};
+
+export const buildTimeline = (processedKeywords: ProcessedKeyword[], config: TimelineConfig): Timeline => {
+  const horizon = Math.max(1, config.horizon);
+  const shares = Array.from({ length: horizon }, (_, i) => rampShare(i, config));
+  const startMonth = timelineStartMonth(config);
+  // 0 when the forecast starts right after the Trends window
+  const trendsOffset = monthsBetween(trendsEndMonth(config), startMonth) - 1;
+  const months: TimelineMonth[] = shares.map((_, i) => ({
+    month: addMonths(startMonth, i),
+    baseline: 0,
+    projected: 0,
+    gain: 0
+  }));
+
+  const keywords = processedKeywords.map(keyword => {
+    const trends = config.seasonality ? keyword.trends : undefined;
+    const projected = shares.map((share, i) => {
+      const factor = seasonalFactor(trends, trendsOffset + i);
+      const baseline = keyword.estimatedCurrentTraffic * factor;
+      const traffic = baseline + share * keyword.expectedGain * factor;
+      months[i].baseline += baseline;
+      months[i].projected += traffic;
+      return traffic;
+    });
+    return { keyword, projected };
+  });
+
+  for (const month of months) month.gain = month.projected - month.baseline;
+  return {
+    months,
+    keywords,
+    seasonalKeywords: config.seasonality ? processedKeywords.filter(k => k.trends).length : 0
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_OUTCOMES,
+  DEFAULT_TRANSITION_MODEL,
+  findTransitionBucket,
+  outcomePosition,
+  transitionProbabilities,
+  upgradeTransitionModel
+} from './transitions';
+import type { RankingOutcome } from '../types';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('findTransitionBucket', () => {
+  it('finds the bucket of whole positions', () => {
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 1)?.label).toBe('1-3');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 10)?.label).toBe('4-10');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 51)?.label).toBe('51-100');
+  });
+
+  it('rounds fractional positions', () => {
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 3.2)?.label).toBe('1-3');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 3.5)?.label).toBe('4-10');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 10.4)?.label).toBe('4-10');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 20.5)?.label).toBe('21-50');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 50.4)?.label).toBe('21-50');
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 0.4)?.label).toBe('1-3');
+  });
+
+  it('clamps positions outside the model', () => {
+    expect(findTransitionBucket(DEFAULT_TRANSITION_MODEL, 250)?.label).toBe('51-100');
+  });
+
+  it('returns undefined for an empty model', () => {
+    expect(findTransitionBucket([], 5)).toBeUndefined();
+  });
+});
+
+describe('transitionProbabilities', () => {
+  it('normalises the bucket weights', () => {
+    const { probStay, probabilities } = transitionProbabilities(DEFAULT_TRANSITION_MODEL, DEFAULT_OUTCOMES, 8, 1);
+    expect(probStay).toBeCloseTo(0.45);
+    expect(probabilities).toEqual([0.25, 0.18, 0.12].map(p => expect.closeTo(p)));
+  });
+
+  it('folds targets that are not improvements into stay', () => {
+    const { probStay, probabilities } = transitionProbabilities(DEFAULT_TRANSITION_MODEL, DEFAULT_OUTCOMES, 2, 1);
+    expect(probabilities[0]).toBe(0);
+    expect(probabilities[1]).toBe(0);
+    expect(probStay + sum(probabilities)).toBeCloseTo(1);
+    expect(probStay).toBeCloseTo(0.9);
+  });
+
+  it('scales improvements by effort but not drops', () => {
+    const drop: RankingOutcome = { id: 'drop', label: 'Drop 3', kind: 'shift', value: 3 };
+    const model = [{ label: 'all', minPosition: 1, maxPosition: 100, stay: 0.5, weights: { pos1: 0.25, drop: 0.25 } }];
+    const outcomes = [DEFAULT_OUTCOMES[2], drop];
+    const { probStay, probabilities } = transitionProbabilities(model, outcomes, 10, 2);
+    expect(probabilities[0]).toBeCloseTo(0.5 / 1.25);
+    expect(probabilities[1]).toBeCloseTo(0.25 / 1.25);
+    expect(probStay).toBeCloseTo(0.5 / 1.25);
+  });
+
+  it('stays put with an empty model or zero weights', () => {
+    expect(transitionProbabilities([], DEFAULT_OUTCOMES, 5, 1)).toEqual({ probStay: 1, probabilities: [0, 0, 0] });
+    const model = [{ label: 'all', minPosition: 1, maxPosition: 100, stay: 0, weights: {} }];
+    expect(transitionProbabilities(model, DEFAULT_OUTCOMES, 5, 1).probStay).toBe(1);
+  });
+});
+
+describe('outcomePosition', () => {
+  it('clamps shifts to the first and last positions', () => {
+    expect(outcomePosition({ id: 'up', label: 'Up', kind: 'shift', value: -10 }, 4)).toBe(1);
+    expect(outcomePosition({ id: 'down', label: 'Down', kind: 'shift', value: 10 }, 95)).toBe(100);
+    expect(outcomePosition(DEFAULT_OUTCOMES[0], 40)).toBe(3);
+  });
+});
+
+describe('upgradeTransitionModel', () => {
+  it('converts the fixed position 3/2/1 fields to weights', () => {
+    const legacy = [{ label: '1-3', minPosition: 1, maxPosition: 3, stay: 0.6, toPos3: 0.15, toPos2: 0.15, toPos1: 0.1 }];
+    expect(upgradeTransitionModel(legacy)).toEqual([
+      { label: '1-3', minPosition: 1, maxPosition: 3, stay: 0.6, weights: { pos3: 0.15, pos2: 0.15, pos1: 0.1 } }
+    ]);
+  });
+
+  it('keeps current buckets as they are', () => {
+    expect(upgradeTransitionModel(DEFAULT_TRANSITION_MODEL)).toEqual(DEFAULT_TRANSITION_MODEL);
+  });
+});
@@ -0,0 +1,111 @@
+import type { CompetitionConfig, CompetitorRanking, RankingOutcome, TransitionBucket, TransitionModel } from '../types';
+
+// The outcomes the model started with; projects saved before outcomes could be
+// configured used these ids
+export const DEFAULT_OUTCOMES: RankingOutcome[] = [
+  { id: 'pos3', label: 'Position 3', kind: 'position', value: 3 },
+  { id: 'pos2', label: 'Position 2', kind: 'position', value: 2 },
+  { id: 'pos1', label: 'Position 1', kind: 'position', value: 1 }
+];
+
+// Ranking outcome probabilities per current position bucket. Keywords deep in
+// the SERP are much less likely to reach the top 3 than those already on page 1.
+export const DEFAULT_TRANSITION_MODEL: TransitionModel = [
+  { label: '1-3', minPosition: 1, maxPosition: 3, stay: 0.6, weights: { pos3: 0.15, pos2: 0.15, pos1: 0.1 } },
+  { label: '4-10', minPosition: 4, maxPosition: 10, stay: 0.45, weights: { pos3: 0.25, pos2: 0.18, pos1: 0.12 } },
+  { label: '11-20', minPosition: 11, maxPosition: 20, stay: 0.6, weights: { pos3: 0.2, pos2: 0.12, pos1: 0.08 } },
+  { label: '21-50', minPosition: 21, maxPosition: 50, stay: 0.75, weights: { pos3: 0.13, pos2: 0.08, pos1: 0.04 } },
+  { label: '51-100', minPosition: 51, maxPosition: 100, stay: 0.85, weights: { pos3: 0.08, pos2: 0.05, pos1: 0.02 } }
+];
+
+type LegacyTransitionBucket = Omit<TransitionBucket, 'weights'> & { toPos3?: number; toPos2?: number; toPos1?: number };
+
+// Buckets saved before outcomes could be configured carry one field per target
+export const upgradeTransitionModel = (model: (TransitionBucket | LegacyTransitionBucket)[]): TransitionModel =>
+  model.map(bucket => {
+    if ('weights' in bucket && bucket.weights) return bucket;
+    const legacy = bucket as LegacyTransitionBucket;
+    return {
+      label: legacy.label,
+      minPosition: legacy.minPosition,
+      maxPosition: legacy.maxPosition,
+      stay: legacy.stay,
+      weights: { pos3: legacy.toPos3 ?? 0, pos2: legacy.toPos2 ?? 0, pos1: legacy.toPos1 ?? 0 }
+    };
+  });
+
+export const MAX_TARGET_POSITION = 100;
+
+export const isDownsideOutcome = (outcome: RankingOutcome): boolean => outcome.kind === 'shift' && outcome.value > 0;
+
+export const describeOutcome = (outcome: RankingOutcome): string =>
+  outcome.kind === 'position'
+    ? `Reach position ${outcome.value}`
+    : outcome.value > 0
+    ? `Drop ${outcome.value} position${outcome.value === 1 ? '' : 's'}`
+    : `Gain ${-outcome.value} position${outcome.value === -1 ? '' : 's'}`;
+
+// Position a keyword at `position` ends up at with this outcome
+export const outcomePosition = (outcome: RankingOutcome, position: number): number =>
+  Math.min(MAX_TARGET_POSITION, Math.max(1, outcome.kind === 'position' ? outcome.value : position + outcome.value));
+
+// Buckets are whole-position ranges, so fractional (average) positions are
+// rounded like in calculateCTR. Undefined only for an empty model
+export const findTransitionBucket = (model: TransitionModel, position: number): TransitionBucket | undefined => {
+  if (model.length === 0) return undefined;
+  const rank = Math.max(1, Math.round(position));
+  return model.find(b => rank >= b.minPosition && rank <= b.maxPosition) ??
+    (rank < model[0].minPosition ? model[0] : model[model.length - 1]);
+};
+
+export interface TransitionProbabilities {
+  probStay: number;
+  // Same order as the outcomes
+  probabilities: number[];
+}
+
+// Probabilities for a keyword at `position`. Improvements that are not better
+// than the current position, and drops that cannot go further, are folded into
+// "stay", so a keyword at #1 is never credited with "reach #3". Improvement
+// odds are scaled by effort; drops are not.
+export const transitionProbabilities = (
+  model: TransitionModel,
+  outcomes: RankingOutcome[],
+  position: number,
+  effortScale: number
+): TransitionProbabilities => {
+  const bucket = findTransitionBucket(model, position);
+  if (!bucket) return { probStay: 1, probabilities: outcomes.map(() => 0) };
+  let stay = Math.max(0, bucket.stay);
+  const weights = outcomes.map(outcome => {
+    const downside = isDownsideOutcome(outcome);
+    const weight = Math.max(0, bucket.weights[outcome.id] ?? 0) * (downside ? 1 : effortScale);
+    const target = outcomePosition(outcome, position);
+    if (downside ? target > position : target < position) return weight;
+    stay += weight;
+    return 0;
+  });
+
+  const total = weights.reduce((sum, w) => sum + w, stay);
+  if (total <= 0) {
+    return { probStay: 1, probabilities: outcomes.map(() => 0) };
+  }
+  return {
+    probStay: stay / total,
+    probabilities: weights.map(w => w / total)
+  };
+};
+
+export const DEFAULT_COMPETITION: CompetitionConfig = { adjustProbabilities: false, penaltyPerCompetitor: 15 };
+
+// Scale applied to the improvement odds: every competitor holding a top-3 spot
+// above the keyword takes `penaltyPerCompetitor` percent off
+export const competitionScale = (
+  position: number,
+  competitors: CompetitorRanking[] | undefined,
+  config: CompetitionConfig
+): number => {
+  if (!config.adjustProbabilities || !competitors) return 1;
+  const blocking = competitors.filter(c => c.position <= 3 && c.position < position).length;
+  return Math.pow(1 - Math.min(100, Math.max(0, config.penaltyPerCompetitor)) / 100, blocking);
+};
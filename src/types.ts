@@ -0,0 +1,207 @@
+export interface KeywordData {
+  keyword: string;
+  position: number;
+  searchVolume: number;
+  currentTraffic?: number;
+  url?: string;
+  // Label of the tagged source (domain, market, date) the row was imported from
+  source?: string;
+  serpFeatures?: SerpFeature[];
+  cpc?: number;
+  // Keyword difficulty, 0-100
+  difficulty?: number;
+  // Monthly interest over the last 12 months, oldest first
+  trends?: number[];
+  // Competitors ranking for the same keyword, joined from their exports
+  competitors?: CompetitorRanking[];
+}
+
+export interface CompetitorRanking {
+  domain: string;
+  position: number;
+  url?: string;
+}
+
+export interface ProcessedKeyword extends KeywordData {
+  estimatedCurrentTraffic: number;
+  probStay: number;
+  // One entry per configured ranking outcome, in the same order
+  outcomes: OutcomeForecast[];
+  expectedTraffic: number;
+  expectedGain: number;
+  // Expected traffic lost through the downside outcomes
+  trafficAtRisk: number;
+  segment: KeywordSegment;
+  // Expected traffic lost to the SERP features shown for the keyword
+  serpFeatureLoss: number;
+  currentConversions: number;
+  expectedConversions: number;
+  currentRevenue: number;
+  expectedRevenue: number;
+  revenueGain: number;
+  // What the traffic would cost in paid search at the keyword's CPC
+  currentPaidValue: number;
+  expectedPaidValue: number;
+  // Estimated work to reach the top 3, in the effort model's unit
+  effortEstimate: number;
+  // Name of the topic cluster the keyword belongs to
+  cluster?: string;
+}
+
+export interface SourceTags {
+  domain: string;
+  market: string;
+  date: string;
+}
+
+// Source column names for each field, as picked in the column mapper
+export interface ColumnMapping {
+  keyword: string;
+  position: string;
+  volume: string;
+  url?: string;
+  currentTraffic?: string;
+  serpFeatures?: string;
+  cpc?: string;
+  difficulty?: string;
+  trends?: string;
+}
+
+export type CtrTable = { [key: number]: number };
+
+// A ranking move the model assigns a probability to: reaching a position
+// (10 for page 1, 5 for the top 5...) or moving by a number of places,
+// positive for a drop
+export interface RankingOutcome {
+  id: string;
+  label: string;
+  kind: 'position' | 'shift';
+  value: number;
+}
+
+// Forecast of one ranking outcome for one keyword
+export interface OutcomeForecast {
+  id: string;
+  label: string;
+  downside: boolean;
+  // Position the keyword would end up at
+  position: number;
+  probability: number;
+  traffic: number;
+  gain: number;
+}
+
+// Outcome weights for keywords whose current position falls in [minPosition, maxPosition]
+export interface TransitionBucket {
+  label: string;
+  minPosition: number;
+  maxPosition: number;
+  stay: number;
+  // Weight of each ranking outcome, by outcome id
+  weights: { [outcomeId: string]: number };
+}
+
+export type TransitionModel = TransitionBucket[];
+
+export type KeywordSegment = 'branded' | 'navigational' | 'transactional' | 'informational' | 'generic';
+
+// User regex rule, checked before the built-in classification
+export interface SegmentRule {
+  pattern: string;
+  segment: KeywordSegment;
+}
+
+export interface SegmentationConfig {
+  brandTerms: string[];
+  rules: SegmentRule[];
+  // CTR curve per segment; segments without one use the global table
+  segmentCtr: { [K in KeywordSegment]?: CtrTable };
+  excludeBranded: boolean;
+}
+
+export type SerpFeature =
+  | 'ads'
+  | 'aiOverview'
+  | 'featuredSnippet'
+  | 'localPack'
+  | 'shopping'
+  | 'knowledgePanel'
+  | 'peopleAlsoAsk'
+  | 'video'
+  | 'topStories'
+  | 'images'
+  | 'sitelinks'
+  | 'reviews';
+
+// CTR multiplier per SERP feature, e.g. 0.7 for "ads on top: -30%"
+export type SerpFeatureMultipliers = { [K in SerpFeature]?: number };
+
+// Conversion rate in percent of visits and average order value
+export interface ValueRates {
+  conversionRate: number;
+  averageOrderValue: number;
+}
+
+// Rates for the keywords whose URL matches a regex, or that belong to a segment
+export interface ValueRule extends ValueRates {
+  scope: 'url' | 'segment';
+  match: string;
+}
+
+export interface BusinessValueConfig extends ValueRates {
+  currency: string;
+  rules: ValueRule[];
+}
+
+// Per-keyword effort: base + difficulty * perDifficulty + positions to the top 3 * perPosition
+export interface EffortModel {
+  unit: 'hours' | 'points';
+  base: number;
+  perDifficulty: number;
+  perPosition: number;
+  // Used for keywords without a difficulty column
+  defaultDifficulty: number;
+  // Manual estimates by keyword key or page URL
+  overrides: { [key: string]: number };
+}
+
+// How the expected gain is spread over the coming months
+export interface TimelineConfig {
+  horizon: number;
+  // First forecast month, "YYYY-MM"; empty for the current month
+  startMonth: string;
+  // Month of the last Trends value, "YYYY-MM"; empty for the month before the current one
+  trendsEndMonth: string;
+  // Months before rankings start to move, then months to reach the expected gain
+  delayMonths: number;
+  rampMonths: number;
+  curve: 'linear' | 'sCurve';
+  // Apply the mapped monthly trends on top of the ramp
+  seasonality: boolean;
+}
+
+// Lowers the improvement odds of a keyword for every competitor holding a top-3 spot above it
+export interface CompetitionConfig {
+  adjustProbabilities: boolean;
+  // Percent taken off the improvement probabilities per such competitor
+  penaltyPerCompetitor: number;
+}
+
+// Everything the forecast depends on besides the keywords themselves
+export interface ModelConfig {
+  ctrValues: CtrTable;
+  upliftCtr: number;
+  effort: number;
+  outcomes: RankingOutcome[];
+  transitions: TransitionModel;
+  segmentation: SegmentationConfig;
+  serpFeatureMultipliers: SerpFeatureMultipliers;
+  businessValue: BusinessValueConfig;
+  effortModel: EffortModel;
+  timeline: TimelineConfig;
+  competition: CompetitionConfig;
+  minSearchVolume: number;
+  maxPosition: number;
+  // Source labels to keep; empty keeps every source
+  sources: string[];
+}
@@ -0,0 +1,61 @@
+// Parses, maps and dedupes exports off the main thread. The raw rows only live
+// here between parsing and mapping; the page gets source summaries and the keywords.
+import { readFileSources, UnsupportedFileError } from '../lib/fileParsing';
+import { includedRawSources, sourceInfo } from '../lib/sources';
+import type { ImportSource, SourceInfo } from '../lib/sources';
+import { mapSources } from '../lib/importer';
+import type { ImportReport, MapRowsOptions } from '../lib/importer';
+import type { ColumnMapping, KeywordData } from '../types';
+
+export type ImportRequest =
+  | { type: 'parse'; files: File[] }
+  // Sources carry the tags and inclusion edited in the page
+  | { type: 'map'; sources: SourceInfo[]; mapping: ColumnMapping; options: MapRowsOptions };
+
+export type ImportMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'parsed'; sources: SourceInfo[] }
+  | { type: 'mapped'; keywords: KeywordData[]; report: ImportReport }
+  | { type: 'error'; message: string; unsupportedFile?: string };
+
+let parsed: ImportSource[] = [];
+
+const ctx = self as unknown as Worker;
+
+const respond = (message: ImportMessage) => ctx.postMessage(message);
+
+const parse = async (files: File[]) => {
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  let done = 0;
+  parsed = [];
+  // One file at a time keeps memory bounded to the rows themselves
+  for (const file of files) {
+    const sources = await readFileSources(file, loaded => respond({ type: 'progress', loaded: done + loaded, total }));
+    done += file.size;
+    parsed.push(...sources);
+  }
+  respond({ type: 'parsed', sources: parsed.map(sourceInfo) });
+};
+
+const map = (sources: SourceInfo[], mapping: ColumnMapping, options: MapRowsOptions) => {
+  const rows = new Map(parsed.map(source => [source.id, source.rows]));
+  const { keywords, report } = mapSources(
+    includedRawSources(sources.map(source => ({ ...source, rows: rows.get(source.id) ?? [] }))),
+    mapping,
+    options
+  );
+  parsed = [];
+  respond({ type: 'mapped', keywords, report });
+};
+
+ctx.onmessage = (e: MessageEvent<ImportRequest>) => {
+  const request = e.data;
+  Promise.resolve()
+    .then(() => (request.type === 'parse' ? parse(request.files) : map(request.sources, request.mapping, request.options)))
+    .catch(err => {
+      console.error('Import worker error:', err);
+      respond(err instanceof UnsupportedFileError
+        ? { type: 'error', message: err.message, unsupportedFile: err.fileName }
+        : { type: 'error', message: err instanceof Error ? err.message : String(err) });
+    });
+};
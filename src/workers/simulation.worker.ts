@@ -0,0 +1,25 @@
+import { simulatePortfolio } from '../lib/simulation';
+import type { SimulationOptions, SimulationResult } from '../lib/simulation';
+
+export interface SimulationRequest {
+  packed: Float64Array;
+  options: SimulationOptions;
+}
+
+export type SimulationMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'result'; result: SimulationResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  try {
+    const result = simulatePortfolio(e.data.packed, e.data.options, (done) => {
+      ctx.postMessage({ type: 'progress', done } satisfies SimulationMessage);
+    });
+    ctx.postMessage({ type: 'result', result } satisfies SimulationMessage);
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } satisfies SimulationMessage);
+  }
+};